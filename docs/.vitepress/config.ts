@@ -17,12 +17,14 @@ export default defineConfig({
           { text: "Handlers", link: "/handlers" },
           { text: "Scheduling", link: "/scheduling" },
           { text: "Deduplication", link: "/deduplication" },
+          { text: "Workflows", link: "/workflows" },
         ],
       },
       {
         text: "Topics",
         items: [
           { text: "Configuration", link: "/configuration" },
+          { text: "Testing", link: "/testing" },
           { text: "Real-World Examples", link: "/real-world-examples" },
           { text: "Migration from v1", link: "/migration" },
         ],
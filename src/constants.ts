@@ -2,6 +2,47 @@ export const MINUTE_SECONDS = 60;
 export const HOUR_SECONDS = 60 * MINUTE_SECONDS;
 export const DAY_SECONDS = 24 * HOUR_SECONDS;
 
+/**
+ * How far ahead Cloud Tasks allows scheduling a task. Tasks that are scheduled
+ * further ahead are rejected, or chained when the queue allows it.
+ */
+export const maxScheduleDelaySeconds = 30 * DAY_SECONDS;
+
+/**
+ * Largest task body that is sent to Cloud Tasks. The limit of Cloud Tasks is 1
+ * MB for the whole task, so this leaves room for the name, URL and headers.
+ */
+export const maxTaskBodyBytes = 1000 * 1000;
+
+/** Default size of the JSON payload from which it is compressed */
+export const defaultCompressionThresholdBytes = 1024;
+
+/** Default time that an idempotency store keeps the key of a handled task */
+export const defaultIdempotencyTtlSeconds = DAY_SECONDS;
+
+/**
+ * Number of revision names of a throttled window that a call tries before it
+ * fails. An instance that did not schedule in the window yet looks for the next
+ * free name from the first revision, with a request for every name that is
+ * taken.
+ */
+export const maxRevisionLookups = 20;
+
+/** Default number of tasks a batch scheduler creates concurrently */
+export const defaultBatchConcurrency = 10;
+
+/**
+ * Time that a handler keeps before the timeout of its function, to report the
+ * timeout before the function is killed
+ */
+export const functionTimeoutMarginMs = 5 * 1000;
+
+/**
+ * How long before the timeout of a handler its abort signal fires, at most 10%
+ * of the timeout
+ */
+export const abortSignalLeadMs = 5 * 1000;
+
 /** Default options for Task handlers */
 export const defaultHandlerOptions = {
   memory: "512MiB",
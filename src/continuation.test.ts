@@ -0,0 +1,179 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { DAY_SECONDS } from "./constants";
+import { createTestTasks } from "./test-utils/test-tasks";
+
+const now = new Date("2024-01-01T00:00:00Z");
+
+function setup() {
+  return createTestTasks({
+    sendReport: {
+      schema: z.object({ reportId: z.string() }),
+      options: { scheduleBeyondLimit: "chain" },
+    },
+    sendReminder: z.object({ userId: z.string() }),
+  });
+}
+
+describe("continuations", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(now);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("chains tasks across the schedule limit until they are due", async () => {
+    const { client, tasks } = setup();
+    const handler = vi.fn(() => Promise.resolve());
+    tasks.createHandler({ queueName: "sendReport", handler });
+
+    const runAt = new Date(now.getTime() + 45 * DAY_SECONDS * 1000);
+    const result = await tasks.createScheduler("sendReport")(
+      { reportId: "report1" },
+      { runAt },
+    );
+
+    expect(result.scheduleTime).toEqual(runAt);
+    const [firstLink] = client.getPendingTasks();
+    expect(firstLink?.scheduleTime).toEqual(
+      new Date(now.getTime() + (30 * DAY_SECONDS - 60) * 1000),
+    );
+
+    vi.setSystemTime(firstLink?.scheduleTime ?? now);
+    await client.runDueTasks();
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(client.getPendingTasks()).toMatchObject([
+      { scheduleTime: runAt, data: { reportId: "report1" } },
+    ]);
+
+    vi.setSystemTime(runAt);
+    await client.runDueTasks();
+
+    expect(handler).toHaveBeenCalledWith(
+      { reportId: "report1" },
+      expect.anything(),
+    );
+    expect(client.getPendingTasks()).toEqual([]);
+  });
+
+  it("rejects tasks beyond the schedule limit unless chaining is enabled", async () => {
+    const { tasks } = setup();
+
+    await expect(
+      tasks.createScheduler("sendReminder")(
+        { userId: "user1" },
+        { delaySeconds: 31 * DAY_SECONDS },
+      ),
+    ).rejects.toThrow("more than 30 days ahead");
+  });
+
+  it("schedules the next run of a recurring task from the handler", async () => {
+    const { client, tasks } = setup();
+    const handler = vi.fn(() => Promise.reject(new Error("Mail server down")));
+    tasks.createHandler({ queueName: "sendReminder", handler });
+
+    const first = await tasks.scheduleRecurring(
+      "sendReminder",
+      { userId: "user1" },
+      { cron: "0 9 * * *" },
+    );
+    const repeated = await tasks.scheduleRecurring(
+      "sendReminder",
+      { userId: "user1" },
+      { cron: "0 9 * * *" },
+    );
+
+    expect(first.scheduleTime).toEqual(new Date("2024-01-01T09:00:00Z"));
+    expect(repeated.outcome).toBe("deduplicated");
+
+    // The next run is scheduled even though the handler fails, and only once
+    vi.setSystemTime(first.scheduleTime);
+    await client.runDueTasks();
+    vi.advanceTimersByTime(60_000);
+    await client.runDueTasks();
+
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(
+      client
+        .getPendingTasks()
+        .map(({ scheduleTime }) => scheduleTime.toISOString()),
+    ).toEqual(["2024-01-01T09:01:20.000Z", "2024-01-02T09:00:00.000Z"]);
+  });
+
+  it("cancels the pending run of a recurring task", async () => {
+    const { client, tasks } = setup();
+    const handler = vi.fn(() => Promise.resolve());
+    tasks.createHandler({ queueName: "sendReminder", handler });
+
+    await tasks.scheduleRecurring(
+      "sendReminder",
+      { userId: "user1" },
+      { cron: "0 9 * * *" },
+    );
+    await tasks.scheduleRecurring(
+      "sendReminder",
+      { userId: "user2" },
+      { cron: "0 9 * * *" },
+    );
+
+    expect(
+      await tasks.cancelRecurring(
+        "sendReminder",
+        { userId: "user1" },
+        { cron: "0 9 * * *" },
+      ),
+    ).toBe(1);
+
+    vi.setSystemTime(new Date("2024-01-01T09:00:00Z"));
+    await client.runDueTasks();
+
+    expect(handler).toHaveBeenCalledOnce();
+    expect(handler).toHaveBeenCalledWith(
+      { userId: "user2" },
+      expect.anything(),
+    );
+  });
+
+  it("blocks the next run of a run that is being dispatched", async () => {
+    const { client, tasks } = setup();
+    const handler = vi.fn(() => Promise.resolve());
+    tasks.createHandler({ queueName: "sendReminder", handler });
+    const cancel = () =>
+      tasks.cancelRecurring(
+        "sendReminder",
+        { userId: "user1" },
+        { cron: "0 9 * * *" },
+      );
+
+    const { scheduleTime } = await tasks.scheduleRecurring(
+      "sendReminder",
+      { userId: "user1" },
+      { cron: "0 9 * * *" },
+    );
+
+    // Cancel just before the handler schedules the next run
+    const createTask = client.createTask.bind(client);
+    let cancelledCount = 0;
+    vi.spyOn(client, "createTask").mockImplementationOnce(async (request) => {
+      cancelledCount = await cancel();
+      return createTask(request);
+    });
+
+    vi.setSystemTime(scheduleTime);
+    await client.runDueTasks();
+
+    expect(cancelledCount).toBe(1);
+    expect(handler).toHaveBeenCalledOnce();
+    expect(await cancel()).toBe(0);
+
+    vi.setSystemTime(new Date("2024-01-02T09:00:00Z"));
+    await client.runDueTasks();
+
+    expect(handler).toHaveBeenCalledOnce();
+    expect(client.getPendingTasks()).toEqual([]);
+  });
+});
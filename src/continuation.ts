@@ -0,0 +1,159 @@
+import crypto from "node:crypto";
+import { getNextCronTime } from "./cron";
+import { canonicalStringify } from "./deduplication";
+import type { EnvelopeMetadata } from "./envelope";
+import type {
+  RecurringScheduleOptions,
+  ScheduleResult,
+  TaskSerializer,
+} from "./types";
+
+/**
+ * Options for tasks that typed-tasks schedules itself, to continue a chained or
+ * recurring task
+ */
+export type ContinuationOptions = {
+  /**
+   * Name of the task, used as is without the deduplication rules of the queue.
+   * It is derived from the task that is continued, so that a retry of the
+   * handler does not schedule the continuation twice.
+   */
+  taskName: string;
+  /** Metadata to store with the payload */
+  metadata: EnvelopeMetadata;
+};
+
+/** Schedules the continuation of a task at the given time */
+export type ScheduleContinuation = (
+  queueName: string,
+  data: unknown,
+  runAt: Date,
+  continuation: ContinuationOptions,
+) => Promise<ScheduleResult>;
+
+/**
+ * Returns the name of the next link of a task that is chained across the
+ * schedule limit of Cloud Tasks
+ *
+ * @param taskId - The short name of the task that is continued
+ */
+export function getChainedTaskName(taskId: string) {
+  return crypto.createHash("md5").update(`${taskId}/chained`).digest("hex");
+}
+
+/**
+ * Returns the name of the task that retries a task after the delay of a
+ * RetryableTaskError
+ *
+ * @param taskId - The short name of the task that is retried
+ * @param retryCount - The number of retries before the failed attempt
+ */
+export function getRetryTaskName(taskId: string, retryCount: number) {
+  return crypto
+    .createHash("md5")
+    .update(`${taskId}/retry/${retryCount}`)
+    .digest("hex");
+}
+
+/**
+ * Returns the name of a run of a recurring task, which combines the id of the
+ * recurrence with the time of the run
+ *
+ * @param id - The id of the recurrence
+ * @param runAt - The time of the run
+ */
+export function getRecurrenceTaskName(id: string, runAt: Date) {
+  return `${id}-${Math.floor(runAt.getTime() / 1000)}`;
+}
+
+/**
+ * Returns the continuation that schedules the next run of a recurring task
+ *
+ * @param recurrence - The recurrence metadata of the current run
+ * @param runAt - The time of the current run
+ * @returns The time of the next run and its continuation options
+ */
+export function getNextRecurrence(
+  recurrence: NonNullable<EnvelopeMetadata["recurrence"]>,
+  runAt: Date,
+) {
+  const nextRunAt = getNextCronTime(recurrence.cron, runAt);
+
+  return {
+    nextRunAt,
+    continuation: {
+      taskName: getRecurrenceTaskName(recurrence.id, nextRunAt),
+      metadata: { recurrence },
+    },
+  };
+}
+
+/**
+ * Returns the id of a recurrence, which is derived from the cron expression and
+ * the payload, so that scheduling it again resolves to the same task name and
+ * is deduplicated
+ *
+ * @param cron - The cron expression of the recurrence
+ * @param payload - The payload of every run
+ * @param serializer - Converts the payload to JSON before it is hashed
+ */
+export function getRecurrenceId(
+  cron: string,
+  payload: unknown,
+  serializer?: TaskSerializer,
+) {
+  return crypto
+    .createHash("md5")
+    .update(canonicalStringify({ cron, payload }, serializer))
+    .digest("hex");
+}
+
+/**
+ * Returns the name of the task that a run of a recurring task schedules when it
+ * is dispatched: the next link if the run is chained across the schedule limit,
+ * and otherwise the next run
+ *
+ * @param taskId - The short name of the run
+ * @param metadata - The metadata of the run
+ * @param scheduleTime - The time the run is scheduled at
+ */
+export function getRecurrenceSuccessorName(
+  taskId: string,
+  { recurrence, runAt }: EnvelopeMetadata,
+  scheduleTime: Date,
+) {
+  if (runAt && new Date(runAt).getTime() > Date.now()) {
+    return getChainedTaskName(taskId);
+  }
+
+  return recurrence
+    ? getNextRecurrence(recurrence, runAt ? new Date(runAt) : scheduleTime)
+        .continuation.taskName
+    : undefined;
+}
+
+/**
+ * Creates the function that schedules recurring tasks
+ *
+ * @param scheduleContinuation - Schedules a task with a fixed name and metadata
+ * @param serializer - Converts the payload to JSON before it is hashed
+ * @returns The scheduleRecurring function
+ */
+export function createRecurringScheduler(
+  scheduleContinuation: ScheduleContinuation,
+  serializer?: TaskSerializer,
+) {
+  return (
+    queueName: string,
+    payload: unknown,
+    { cron }: RecurringScheduleOptions,
+  ) => {
+    const id = getRecurrenceId(cron, payload, serializer);
+    const { nextRunAt, continuation } = getNextRecurrence(
+      { cron, id },
+      new Date(Date.now()),
+    );
+
+    return scheduleContinuation(queueName, payload, nextRunAt, continuation);
+  };
+}
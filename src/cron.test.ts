@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { getNextCronTime } from "./cron";
+
+describe("getNextCronTime", () => {
+  const after = new Date("2024-01-31T10:15:30Z");
+
+  it("finds the next matching minute in UTC", () => {
+    expect(getNextCronTime("*/20 * * * *", after)).toEqual(
+      new Date("2024-01-31T10:20:00Z"),
+    );
+    expect(getNextCronTime("0 9 * * 1-5", after)).toEqual(
+      new Date("2024-02-01T09:00:00Z"),
+    );
+    expect(getNextCronTime("@monthly", after)).toEqual(
+      new Date("2024-02-01T00:00:00Z"),
+    );
+  });
+
+  it("matches either day field when both are restricted", () => {
+    // The 15th of the month, or any Sunday
+    expect(getNextCronTime("0 0 15 * 7", after)).toEqual(
+      new Date("2024-02-04T00:00:00Z"),
+    );
+    // Only Sundays in March
+    expect(getNextCronTime("0 0 * 3 0", after)).toEqual(
+      new Date("2024-03-03T00:00:00Z"),
+    );
+  });
+
+  it("rejects invalid and impossible expressions", () => {
+    expect(() => getNextCronTime("0 9 * *", after)).toThrow(
+      "It must have 5 fields",
+    );
+    expect(() => getNextCronTime("0 24 * * *", after)).toThrow(
+      'Invalid hour "24"',
+    );
+    expect(() => getNextCronTime("0 0 30 2 *", after)).toThrow(
+      "does not match any upcoming time",
+    );
+  });
+});
@@ -0,0 +1,151 @@
+import { DAY_SECONDS } from "./constants";
+
+/** The values that match each field of a cron expression */
+type CronSchedule = {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /**
+   * When both day fields are restricted, a day matches if either of them
+   * matches, like in Vixie cron
+   */
+  matchAnyDay: boolean;
+};
+
+const fieldRanges = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "day of week", min: 0, max: 7 },
+] as const;
+
+const macros: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+/** Expressions that never match, like February 30, are searched this far */
+const maxSearchMs = 5 * 366 * DAY_SECONDS * 1000;
+
+/** Parses a field with lists, ranges and steps, like "1-5", "0,30" or "0-59/15" */
+function parseField(
+  expression: string,
+  field: string,
+  { name, min, max }: (typeof fieldRanges)[number],
+) {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const match = /^(?:\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+
+    if (!match) {
+      throw new Error(`Invalid ${name} "${part}" in cron "${expression}"`);
+    }
+
+    const [, start, end, step] = match;
+    const from = start === undefined ? min : Number(start);
+    const to =
+      end !== undefined
+        ? Number(end)
+        : start === undefined || step !== undefined
+          ? max
+          : from;
+    const increment = step === undefined ? 1 : Number(step);
+
+    if (from < min || to > max || from > to || increment < 1) {
+      throw new Error(`Invalid ${name} "${part}" in cron "${expression}"`);
+    }
+
+    for (let value = from; value <= to; value += increment) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parses a cron expression with five fields: minute, hour, day of month, month
+ * and day of week. Fields support `*`, lists, ranges and steps, and Sunday can
+ * be written as 0 or 7. The macros `@yearly`, `@monthly`, `@weekly`, `@daily`
+ * and `@hourly` are supported as well.
+ *
+ * @param expression - The cron expression
+ * @returns The parsed schedule
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const fields = (macros[expression.trim()] ?? expression).trim().split(/\s+/);
+
+  if (fields.length !== fieldRanges.length) {
+    throw new Error(
+      `Invalid cron "${expression}". It must have 5 fields: minute, hour, day of month, month and day of week.`,
+    );
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fieldRanges.map(
+    (range, index) => parseField(expression, fields[index] ?? "", range),
+  ) as [Set<number>, Set<number>, Set<number>, Set<number>, Set<number>];
+
+  // Both 0 and 7 mean Sunday
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    matchAnyDay: !fields[2]?.startsWith("*") && !fields[4]?.startsWith("*"),
+  };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date) {
+  const matchesDayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+  const matchesDayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+
+  return schedule.matchAnyDay
+    ? matchesDayOfMonth || matchesDayOfWeek
+    : matchesDayOfMonth && matchesDayOfWeek;
+}
+
+/**
+ * Returns the first time after the given date that matches a cron expression.
+ * Cron expressions are evaluated in UTC, with a precision of one minute.
+ *
+ * @param expression - The cron expression
+ * @param after - The time after which to find the next match
+ * @returns The next matching time
+ */
+export function getNextCronTime(expression: string, after: Date) {
+  const schedule = parseCronExpression(expression);
+  const date = new Date(after.getTime());
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+
+  while (date.getTime() - after.getTime() <= maxSearchMs) {
+    if (!schedule.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0, 0, 0);
+    } else if (!matchesDay(schedule, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0, 0, 0);
+    } else if (!schedule.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+    } else if (!schedule.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+    } else {
+      return date;
+    }
+  }
+
+  throw new Error(`Cron "${expression}" does not match any upcoming time`);
+}
@@ -0,0 +1,163 @@
+import crypto from "node:crypto";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { deadLetterEntrySchema } from "./dead-letter";
+import { createStaticKeyProvider } from "./encryption";
+import { createTestTasks } from "./test-utils/test-tasks";
+import type { DeadLetterEntry } from "./types";
+
+describe("dead-letter", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(1_700_000_000_000);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("sends invalid and exhausted tasks to the dead-letter queue", async () => {
+    const { client, tasks } = createTestTasks(
+      {
+        sendEmail: {
+          schema: z.object({ email: z.string() }),
+          options: { deadLetter: { queueName: "deadLetters" } },
+        },
+        deadLetters: deadLetterEntrySchema,
+      },
+      { options: { retryConfig: { maxAttempts: 2, minBackoffSeconds: 10 } } },
+    );
+
+    const entries: DeadLetterEntry[] = [];
+
+    tasks.createHandler({
+      queueName: "sendEmail",
+      handler: () => Promise.reject(new Error("Mailbox unavailable")),
+    });
+    tasks.createHandler({
+      queueName: "deadLetters",
+      handler: async (entry) => {
+        entries.push(entry);
+      },
+    });
+
+    const scheduleEmail = tasks.createScheduler("sendEmail");
+    await scheduleEmail({ email: 42 } as unknown as { email: string });
+    await scheduleEmail({ email: "test@example.com" });
+
+    await client.runDueTasks();
+    vi.advanceTimersByTime(10_000);
+    await client.runDueTasks();
+
+    expect(entries).toMatchObject([
+      {
+        queueName: "sendEmail",
+        payload: { email: 42 },
+        reason: "validation",
+        error: { name: "ZodError" },
+      },
+      {
+        queueName: "sendEmail",
+        payload: { email: "test@example.com" },
+        reason: "exhausted",
+        error: { message: "Mailbox unavailable" },
+        metadata: { retryCount: 1 },
+      },
+    ]);
+
+    // The dead-lettered task is acknowledged, so Cloud Tasks stops retrying
+    expect(
+      client.getDispatches("sendEmail").map(({ status }) => status),
+    ).toEqual(["success", "retry", "success"]);
+  });
+
+  it("passes entries to a sink and replays them", async () => {
+    const sink = vi.fn<(entry: DeadLetterEntry) => Promise<void>>(() =>
+      Promise.resolve(),
+    );
+    const { client, tasks } = createTestTasks({
+      sendEmail: {
+        schema: z.object({ email: z.string() }),
+        options: { deadLetter: { sink } },
+      },
+    });
+
+    const handler = vi.fn(() => Promise.resolve());
+    tasks.createHandler({ queueName: "sendEmail", handler });
+
+    await tasks.createScheduler("sendEmail")({
+      email: 42,
+    } as unknown as { email: string });
+    await client.runDueTasks();
+
+    const entry = sink.mock.calls[0]?.[0];
+    expect(entry).toMatchObject({ reason: "validation" });
+
+    const replay = tasks.createDeadLetterReplayer("sendEmail");
+
+    await expect(replay(entry as DeadLetterEntry)).rejects.toThrow(
+      "does not match the schema",
+    );
+
+    await replay(entry as DeadLetterEntry, {
+      payload: { email: "fixed@example.com" },
+    });
+    await client.runDueTasks();
+
+    expect(handler).toHaveBeenLastCalledWith(
+      { email: "fixed@example.com" },
+      expect.anything(),
+    );
+  });
+
+  it("rejects a dead-letter queue that is not defined", () => {
+    expect(() =>
+      createTestTasks({
+        sendEmail: {
+          schema: z.object({ email: z.string() }),
+          options: { deadLetter: { queueName: "missing" } },
+        },
+      }),
+    ).toThrow("Invalid dead-letter queue missing");
+  });
+
+  it("requires an encrypted dead-letter queue for an encrypted queue", () => {
+    const keyProvider = createStaticKeyProvider({
+      keys: { key1: crypto.randomBytes(32) },
+      currentKeyId: "key1",
+    });
+
+    expect(() =>
+      createTestTasks({
+        sendEmail: {
+          schema: z.object({ email: z.string() }),
+          options: {
+            deadLetter: { queueName: "deadLetters" },
+            encryption: { keyProvider },
+          },
+        },
+        deadLetters: deadLetterEntrySchema,
+      }),
+    ).toThrow(
+      "The dead-letter queue deadLetters of queue sendEmail must be encrypted",
+    );
+  });
+
+  it("requires a retry config that determines the last attempt", () => {
+    const { tasks } = createTestTasks({
+      sendEmail: {
+        schema: z.object({ email: z.string() }),
+        options: { deadLetter: { sink: () => Promise.resolve() } },
+      },
+    });
+
+    expect(() =>
+      tasks.createHandler({
+        queueName: "sendEmail",
+        options: { retryConfig: { maxAttempts: 5, maxRetrySeconds: 3600 } },
+        handler: () => Promise.resolve(),
+      }),
+    ).toThrow("requires a retry config with a positive maxAttempts");
+  });
+});
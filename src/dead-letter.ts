@@ -0,0 +1,157 @@
+import { got } from "get-or-throw";
+import { z } from "zod";
+import type { TaskRegistry } from "./task-registry";
+import type {
+  DeadLetterEntry,
+  DeadLetterReplayOptions,
+  ScheduleResult,
+  SchemaRecord,
+  TaskMetadata,
+  TaskScheduleOptions,
+} from "./types";
+
+/**
+ * Schema for dead-letter entries. Use it as the schema of the queue that
+ * receives dead-lettered tasks.
+ */
+export const deadLetterEntrySchema = z.object({
+  queueName: z.string(),
+  payload: z.unknown(),
+  reason: z.enum(["validation", "exhausted", "permanent"]),
+  error: z.object({
+    name: z.string(),
+    message: z.string(),
+    stack: z.string().optional(),
+    issues: z.array(z.unknown()).optional(),
+  }),
+  metadata: z.object({
+    taskId: z.string(),
+    retryCount: z.number(),
+    executionCount: z.number(),
+    scheduledTime: z.string().optional(),
+  }),
+  deadLetteredAt: z.string(),
+}) satisfies z.ZodType<DeadLetterEntry>;
+
+/**
+ * Creates a dead-letter entry for a task that could not be processed
+ *
+ * @param queueName - Name of the queue the task was dispatched on
+ * @param payload - The original payload
+ * @param reason - Why the task is dead-lettered
+ * @param error - The validation or handler error
+ * @param metadata - The dispatch metadata of the failed attempt
+ * @returns A JSON serializable dead-letter entry
+ */
+export function createDeadLetterEntry(
+  queueName: string,
+  payload: unknown,
+  reason: DeadLetterEntry["reason"],
+  error: unknown,
+  metadata: TaskMetadata,
+): DeadLetterEntry {
+  return {
+    queueName,
+    payload,
+    reason,
+    error:
+      error instanceof z.ZodError
+        ? {
+            name: error.name,
+            message: `Zod validation error for queue ${queueName}`,
+            issues: error.issues,
+          }
+        : error instanceof Error
+          ? { name: error.name, message: error.message, stack: error.stack }
+          : { name: "Error", message: String(error) },
+    metadata: {
+      taskId: metadata.taskId,
+      retryCount: metadata.retryCount,
+      executionCount: metadata.executionCount,
+      scheduledTime: metadata.scheduledTime?.toISOString(),
+    },
+    deadLetteredAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Creates a function that sends a dead-letter entry to the destination
+ * configured for its queue
+ *
+ * @param taskRegistry - Registry containing the dead-letter configurations
+ * @param schedule - Function to schedule the entry on a dead-letter queue
+ * @returns A function that resolves with true if the entry was sent, or false
+ *   if no dead-letter destination is configured for the queue
+ */
+export function createDeadLetterSender(
+  taskRegistry: TaskRegistry,
+  schedule: (queueName: string, data: unknown) => Promise<unknown>,
+) {
+  return async (entry: DeadLetterEntry) => {
+    const deadLetter = taskRegistry.get(entry.queueName)?.deadLetter;
+
+    if (!deadLetter) {
+      return false;
+    }
+
+    if ("sink" in deadLetter) {
+      await deadLetter.sink(entry);
+    } else {
+      await schedule(deadLetter.queueName, entry);
+    }
+
+    return true;
+  };
+}
+
+/**
+ * Creates a factory function that produces replayers for dead-lettered tasks
+ *
+ * @param schemas - Extracted schemas from task definitions
+ * @param schedule - Function to schedule a task on a queue
+ * @returns A factory function for creating dead-letter replayers
+ */
+export function createDeadLetterReplayerFactory<Payloads>(
+  schemas: SchemaRecord,
+  schedule: (
+    queueName: string,
+    data: unknown,
+    options?: TaskScheduleOptions,
+  ) => Promise<ScheduleResult>,
+) {
+  return <T extends keyof Payloads & string>(queueName: T) => {
+    /**
+     * Schedules a dead-lettered task again
+     *
+     * @param entry - The dead-letter entry
+     * @param options - Optional scheduling options and replacement payload
+     * @returns Promise that resolves with the schedule result
+     */
+    return async (
+      entry: DeadLetterEntry,
+      {
+        payload,
+        ...scheduleOptions
+      }: DeadLetterReplayOptions<Payloads[T]> = {},
+    ): Promise<ScheduleResult> => {
+      if (entry.queueName !== queueName) {
+        throw new Error(
+          `Dead-letter entry from queue ${entry.queueName} can not be replayed on queue ${queueName}`,
+        );
+      }
+
+      const data = payload === undefined ? entry.payload : payload;
+      const result = got(schemas, queueName).safeParse(data);
+
+      if (!result.success) {
+        throw new Error(
+          `Dead-letter payload does not match the schema of queue ${queueName}`,
+          { cause: result.error },
+        );
+      }
+
+      // Schedule the original data, so the handler applies any transforms
+      return schedule(queueName, data, scheduleOptions);
+    };
+  };
+}
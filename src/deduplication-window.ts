@@ -0,0 +1,392 @@
+import type { protos } from "@google-cloud/tasks";
+import { maxRevisionLookups } from "./constants";
+import { unwrapPayload, wrapPayload } from "./envelope";
+import { TaskScheduleError } from "./errors";
+import { isAlreadyExistsError, isNotFoundError } from "./status-errors";
+import { decodeTaskData } from "./task-body";
+import type { DeduplicationMode, TaskLogger, TasksClient } from "./types";
+
+type Task = protos.google.cloud.tasks.v2.ITask;
+
+/** A task that is about to be created, with the full resource name */
+type NamedTask = Task & { name: string };
+
+/**
+ * A deduplication window that has not ended, identified by the task that is
+ * scheduled at its end
+ */
+export type OpenWindow = {
+  /** Full resource name of the task that marks the window */
+  name: string;
+  /** The end of the window, in seconds since the epoch */
+  endSeconds: number;
+};
+
+/**
+ * Thrown when a call falls in a window that is already open. It counts as
+ * ALREADY_EXISTS, so the scheduler reports the call as deduplicated.
+ */
+export class WindowDeduplicatedError extends Error {
+  /** The task that the call was deduplicated against */
+  readonly taskName: string;
+  /** The end of the window, if it is known */
+  readonly endSeconds?: number;
+
+  constructor(taskName: string, endSeconds?: number) {
+    super(`ALREADY_EXISTS: the deduplication window of ${taskName} is open`);
+    this.name = "WindowDeduplicatedError";
+    this.taskName = taskName;
+    this.endSeconds = endSeconds;
+  }
+}
+
+/**
+ * Returns the index of the bucket of the current time. A window is named after
+ * the bucket in which it starts, because Cloud Tasks does not allow reusing the
+ * name of a task that ran or was deleted recently.
+ */
+function getWindowIndex(windowSeconds: number) {
+  return Math.floor(Date.now() / (windowSeconds * 1000));
+}
+
+/**
+ * Returns the name of the task that marks the window that starts in the current
+ * bucket, or in the bucket with the given offset
+ *
+ * @param baseName - The name that is derived from the deduplication key or
+ *   passed as taskName
+ * @param windowSeconds - The deduplication window of the queue
+ * @param offset - Offset from the current bucket
+ */
+export function getWindowTaskName(
+  baseName: string,
+  windowSeconds: number,
+  offset = 0,
+) {
+  return `${baseName}-${getWindowIndex(windowSeconds) + offset}`;
+}
+
+/** Returns the name of the task that runs the payload of a leading window */
+export function getLeadingRunTaskName(windowName: string) {
+  return `${windowName}-run`;
+}
+
+/**
+ * Returns the window that started in the previous bucket, if it has not ended
+ * yet. A window lasts a full window from its first call, so it always ends in
+ * the bucket after the one it started in. The window of the current bucket can
+ * never have ended, so creating its task is enough to find out if it is open.
+ *
+ * @param tasksClient - Google Cloud Tasks client
+ * @param baseName - Full resource name of the task without the window suffix
+ * @param windowSeconds - The deduplication window of the queue
+ * @returns The open window, or undefined if it ended or never started
+ */
+export async function getPreviousOpenWindow(
+  tasksClient: TasksClient,
+  baseName: string,
+  windowSeconds: number,
+): Promise<OpenWindow | undefined> {
+  const name = getWindowTaskName(baseName, windowSeconds, -1);
+
+  try {
+    const [task] = await tasksClient.getTask({ name });
+    const endSeconds = Number(task.scheduleTime?.seconds ?? 0);
+
+    // Once the task is dispatched, or overdue in a busy queue, the window ended
+    return Number(task.dispatchCount ?? 0) === 0 &&
+      endSeconds * 1000 > Date.now()
+      ? { name, endSeconds }
+      : undefined;
+  } catch (error) {
+    if (isNotFoundError(error)) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Resolves the name of the task that marks the window of a call at the current
+ * time: the window of the previous bucket while it is open, and otherwise the
+ * window of the current bucket
+ */
+export async function resolveWindowTaskName(
+  tasksClient: TasksClient,
+  baseName: string,
+  windowSeconds: number,
+) {
+  const previousWindow = await getPreviousOpenWindow(
+    tasksClient,
+    baseName,
+    windowSeconds,
+  );
+
+  return previousWindow?.name ?? getWindowTaskName(baseName, windowSeconds);
+}
+
+/**
+ * Checks if a task marks the end of a deduplication window, which has no
+ * payload
+ *
+ * @param task - A task with the FULL response view
+ */
+export function isWindowMarker(task: Task) {
+  return !!unwrapPayload(decodeTaskData(task)).metadata.windowMarker;
+}
+
+/**
+ * The body of the task that marks a window in leading and throttle mode, which
+ * the handler acknowledges without running. cancelRecurring uses it to take the
+ * name of the next run of a recurrence.
+ */
+export function createMarkerBody() {
+  return Buffer.from(
+    JSON.stringify({ data: wrapPayload(null, { windowMarker: true }) }),
+  ).toString("base64");
+}
+
+/**
+ * Creates the function that creates a task on a queue with a deduplication
+ * window:
+ *
+ * - Trailing: the window is the bucket of the current time, and its task runs the
+ *   payload of the first call in the bucket a full window after that call
+ *
+ * In leading and throttle mode, a window starts at the first call and lasts the
+ * full window from there. A task is scheduled at the end of the window, so that
+ * a pending task tells later calls that the window is open:
+ *
+ * - Leading: a marker task is scheduled at the end, and the payload runs in a
+ *   separate task at the requested time
+ * - Throttle: a marker task is scheduled at the end, and the payload runs in a
+ *   revision that is replaced by every later call in the window
+ *
+ * @param tasksClient - Google Cloud Tasks client
+ * @param logger - Logger for revisions that could not be deleted
+ * @returns A function that creates the task and resolves like createTask, or
+ *   rejects with a WindowDeduplicatedError when the call is deduplicated
+ */
+export function createWindowTaskCreator(
+  tasksClient: TasksClient,
+  logger: TaskLogger,
+) {
+  /**
+   * The latest revision by window, so that the calls of this instance do not
+   * look for it from the first revision. Windows are removed once they ended.
+   */
+  const revisions = new Map<string, { revision: number; endSeconds: number }>();
+
+  /** Reads the end of a window of the current bucket that is open */
+  async function getCurrentWindow(name: string): Promise<OpenWindow> {
+    const [windowTask] = await tasksClient.getTask({ name });
+
+    return { name, endSeconds: Number(windowTask.scheduleTime?.seconds ?? 0) };
+  }
+
+  /** Creates the task that marks a window, which starts now */
+  async function openWindow(
+    parent: string,
+    task: NamedTask,
+    windowSeconds: number,
+  ): Promise<OpenWindow> {
+    const name = getWindowTaskName(task.name, windowSeconds);
+    const endSeconds = Math.floor(Date.now() / 1000) + windowSeconds;
+
+    await tasksClient.createTask({
+      parent,
+      task: {
+        ...task,
+        name,
+        scheduleTime: { seconds: endSeconds },
+        httpRequest: { ...task.httpRequest, body: createMarkerBody() },
+      },
+    });
+
+    return { name, endSeconds };
+  }
+
+  /**
+   * Opens a window that starts now, or joins the window of the current bucket
+   * that another call opened
+   */
+  async function openOrJoinWindow(
+    parent: string,
+    task: NamedTask,
+    windowSeconds: number,
+  ): Promise<OpenWindow> {
+    try {
+      return await openWindow(parent, task, windowSeconds);
+    } catch (error) {
+      if (!isAlreadyExistsError(error)) {
+        throw error;
+      }
+
+      return getCurrentWindow(getWindowTaskName(task.name, windowSeconds));
+    }
+  }
+
+  /**
+   * Creates the next revision of the payload of a throttled window. The new
+   * revision is created before the previous one is deleted, so a failure never
+   * leaves the window without a task. Without a known revision, the next free
+   * name is searched from the first revision, for at most maxRevisionLookups
+   * names.
+   */
+  async function createRevision(
+    parent: string,
+    task: NamedTask,
+    window: OpenWindow,
+  ) {
+    const firstRevision = (revisions.get(window.name)?.revision ?? 0) + 1;
+
+    for (
+      let revision = firstRevision;
+      revision < firstRevision + maxRevisionLookups;
+      revision++
+    ) {
+      let created: [Task, ...unknown[]];
+
+      try {
+        created = await tasksClient.createTask({
+          parent,
+          task: {
+            ...task,
+            name: `${window.name}-${revision}`,
+            scheduleTime: { seconds: window.endSeconds },
+          },
+        });
+      } catch (error) {
+        // The revision is pending, or was replaced by a later revision
+        if (isAlreadyExistsError(error)) {
+          continue;
+        }
+        throw error;
+      }
+
+      for (const [name, { endSeconds }] of revisions) {
+        if (endSeconds * 1000 <= Date.now()) {
+          revisions.delete(name);
+        }
+      }
+
+      revisions.set(window.name, {
+        revision,
+        endSeconds: window.endSeconds,
+      });
+
+      if (revision > 1) {
+        const previousName = `${window.name}-${revision - 1}`;
+
+        try {
+          await tasksClient.deleteTask({ name: previousName });
+        } catch (error) {
+          // A concurrent call already replaced the previous revision
+          if (!isNotFoundError(error)) {
+            logger.warn(
+              `Failed to delete the replaced revision ${previousName}, so it still runs`,
+              error,
+            );
+          }
+        }
+      }
+
+      return created;
+    }
+
+    throw new TaskScheduleError(
+      parent.split("/").pop() ?? parent,
+      `revisions ${firstRevision} to ${firstRevision + maxRevisionLookups - 1} of the throttle window ${window.name} are taken, so the call fails until the window ends at ${new Date(window.endSeconds * 1000).toISOString()}`,
+    );
+  }
+
+  /**
+   * Creates the task of a call on a queue with a deduplication window
+   *
+   * @param parent - Full resource name of the queue
+   * @param task - The task, named without the window suffix
+   * @param mode - The deduplication mode of the queue
+   * @param windowSeconds - The deduplication window of the queue
+   * @param progress - The window this call opened in an earlier attempt, so a
+   *   retry does not deduplicate the call against its own window
+   */
+  return async (
+    parent: string,
+    task: NamedTask,
+    mode: DeduplicationMode,
+    windowSeconds: number,
+    progress: { window?: OpenWindow },
+  ): Promise<[Task, ...unknown[]]> => {
+    /**
+     * A trailing window is the bucket of the current time, like a debounce, so
+     * it only needs createTask. The other modes look up the window of the
+     * previous bucket, which needs permission to get tasks.
+     */
+    if (mode === "trailing") {
+      const name = getWindowTaskName(task.name, windowSeconds);
+
+      try {
+        return await tasksClient.createTask({
+          parent,
+          task: { ...task, name },
+        });
+      } catch (error) {
+        // The end of the window is not known without getting its task
+        if (isAlreadyExistsError(error)) {
+          throw new WindowDeduplicatedError(name);
+        }
+        throw error;
+      }
+    }
+
+    const previousWindow =
+      progress.window ??
+      (await getPreviousOpenWindow(tasksClient, task.name, windowSeconds));
+
+    switch (mode) {
+      case "leading": {
+        if (!progress.window) {
+          if (previousWindow) {
+            throw new WindowDeduplicatedError(
+              getLeadingRunTaskName(previousWindow.name),
+            );
+          }
+
+          try {
+            progress.window = await openWindow(parent, task, windowSeconds);
+          } catch (error) {
+            // The window of the current bucket is open
+            if (isAlreadyExistsError(error)) {
+              const { name, endSeconds } = await getCurrentWindow(
+                getWindowTaskName(task.name, windowSeconds),
+              );
+              throw new WindowDeduplicatedError(
+                getLeadingRunTaskName(name),
+                endSeconds,
+              );
+            }
+            throw error;
+          }
+        }
+
+        return tasksClient.createTask({
+          parent,
+          task: { ...task, name: getLeadingRunTaskName(progress.window.name) },
+        });
+      }
+      case "throttle": {
+        // A window of this instance is not looked up again
+        const name = getWindowTaskName(task.name, windowSeconds);
+        const known = revisions.get(name);
+
+        progress.window =
+          previousWindow ??
+          (known && known.endSeconds * 1000 > Date.now()
+            ? { name, endSeconds: known.endSeconds }
+            : await openOrJoinWindow(parent, task, windowSeconds));
+
+        return createRevision(parent, task, progress.window);
+      }
+    }
+  };
+}
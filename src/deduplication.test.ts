@@ -0,0 +1,133 @@
+import crypto from "node:crypto";
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { canonicalStringify } from "./deduplication";
+import { defineTask } from "./define-task";
+import { createTestTasks } from "./test-utils/test-tasks";
+
+const userSchema = z.object({ userId: z.string(), force: z.boolean() });
+
+function setup() {
+  return createTestTasks({
+    legacy: { schema: userSchema, options: { useDeduplication: true } },
+    canonical: {
+      schema: userSchema,
+      options: {
+        useDeduplication: true,
+        deduplicationHashFormat: "canonical",
+        deduplicationHashAlgorithm: "sha256",
+      },
+    },
+    byUser: defineTask({
+      schema: userSchema,
+      options: { deduplicationKey: ["userId"] },
+    }),
+    byUserFunction: defineTask({
+      schema: userSchema,
+      options: { deduplicationKey: ({ userId }) => userId.toLowerCase() },
+    }),
+  });
+}
+
+describe("canonicalStringify", () => {
+  it("sorts the keys of nested objects and keeps the array order", () => {
+    expect(canonicalStringify({ b: [{ d: 1, c: 2 }, 3], a: undefined })).toBe(
+      '{"b":[{"c":2,"d":1},3]}',
+    );
+  });
+});
+
+describe("deduplication keys", () => {
+  it("keeps the legacy hash unless the canonical format is selected", async () => {
+    const { tasks } = setup();
+
+    const legacy = await tasks.createScheduler("legacy")({
+      force: true,
+      userId: "user1",
+    });
+    const reordered = await tasks.createScheduler("legacy")({
+      userId: "user1",
+      force: true,
+    });
+
+    expect(legacy.taskName.split("/").pop()).toBe(
+      crypto
+        .createHash("md5")
+        .update(JSON.stringify({ force: true, userId: "user1" }))
+        .digest("hex"),
+    );
+    expect(reordered.outcome).toBe("created");
+
+    const canonical = await tasks.createScheduler("canonical")({
+      force: true,
+      userId: "user1",
+    });
+    const canonicalReordered = await tasks.createScheduler("canonical")({
+      userId: "user1",
+      force: true,
+    });
+
+    expect(canonical.taskName.split("/").pop()).toHaveLength(64);
+    expect(canonicalReordered).toMatchObject({
+      taskName: canonical.taskName,
+      outcome: "deduplicated",
+    });
+  });
+
+  it("deduplicates on the fields or function of the deduplication key", async () => {
+    const { client, tasks } = setup();
+
+    await tasks.createScheduler("byUser")({ userId: "user1", force: false });
+    const byFields = await tasks.createScheduler("byUser")({
+      userId: "user1",
+      force: true,
+    });
+
+    await tasks.createScheduler("byUserFunction")({
+      userId: "User1",
+      force: false,
+    });
+    const byFunction = await tasks.createScheduler("byUserFunction")({
+      userId: "user1",
+      force: true,
+    });
+
+    expect(byFields.outcome).toBe("deduplicated");
+    expect(byFunction.outcome).toBe("deduplicated");
+    expect(client.getPendingTasks()).toHaveLength(2);
+  });
+
+  it("checks the fields of the deduplication key against the schema", () => {
+    defineTask({
+      schema: userSchema,
+      // @ts-expect-error The field is not part of the payload
+      options: { deduplicationKey: ["email"] },
+    });
+  });
+
+  it("rejects task names that Cloud Tasks does not accept", async () => {
+    const { client, tasks } = setup();
+
+    await expect(
+      tasks.createScheduler("legacy")(
+        { userId: "user1", force: true },
+        { taskName: "user/1" },
+      ),
+    ).rejects.toThrow('Invalid task name "user/1" for queue legacy');
+    expect(client.getPendingTasks()).toHaveLength(0);
+  });
+
+  it("requires a deduplication key in throttle mode", () => {
+    expect(() =>
+      createTestTasks({
+        syncUser: {
+          schema: userSchema,
+          options: {
+            deduplicationWindowSeconds: 60,
+            deduplicationMode: "throttle",
+          },
+        },
+      }),
+    ).toThrow("requires a deduplicationKey");
+  });
+});
@@ -0,0 +1,116 @@
+import crypto from "node:crypto";
+import { defaultSerializer } from "./serializer";
+import type { TaskConfig } from "./task-registry";
+import type { DeduplicationKey, TaskSerializer } from "./types";
+
+/**
+ * Cloud Tasks task IDs can contain letters, numbers, hyphens and underscores,
+ * and can be at most 500 characters long
+ */
+const taskIdPattern = /^[\w-]{1,500}$/;
+
+/**
+ * Serializes a value to JSON with the keys of all objects sorted, so that
+ * payloads with the same content produce the same string regardless of the
+ * order of their keys. The value is converted with the serializer first, so
+ * that values like Maps and BigInts are hashed by their content. The type tags
+ * are not included, so a Date hashes the same as its ISO string.
+ *
+ * @param value - The value to serialize
+ * @param serializer - Converts the value to JSON, defaults to the default
+ *   serializer
+ * @returns The canonical JSON string
+ */
+export function canonicalStringify(
+  value: unknown,
+  serializer: TaskSerializer = defaultSerializer,
+): string {
+  return (
+    JSON.stringify(
+      serializer.serialize(value).json,
+      (_key, nestedValue: unknown) =>
+        typeof nestedValue === "object" &&
+        nestedValue !== null &&
+        !Array.isArray(nestedValue)
+          ? Object.fromEntries(
+              // Keys are unique, so they are never equal
+              Object.entries(nestedValue).sort(([a], [b]) => (a < b ? -1 : 1)),
+            )
+          : nestedValue,
+    ) ?? ""
+  );
+}
+
+/**
+ * Returns the part of the payload that is selected by the deduplication key.
+ * The key was defined for the payload type of its queue, which is erased in the
+ * task registry.
+ */
+function selectDeduplicationKey(
+  data: unknown,
+  deduplicationKey: DeduplicationKey<never>,
+) {
+  if (typeof deduplicationKey === "function") {
+    // The scheduler only passes payloads of the queue the key belongs to
+    return deduplicationKey(data as never);
+  }
+
+  const payload = (data ?? {}) as Record<string, unknown>;
+
+  return Object.fromEntries(
+    deduplicationKey.map((field) => [field, payload[field]]),
+  );
+}
+
+/**
+ * Hashes the payload, or the part selected by the deduplication key, into a
+ * task name. The legacy format hashes the result of JSON.stringify, so the
+ * names of tasks scheduled by previous versions stay the same.
+ *
+ * @param taskConfig - The scheduler options of the queue
+ * @param data - The payload data
+ * @param serializer - Converts the payload to JSON before it is hashed
+ * @returns The hex digest of the payload
+ */
+export function hashDeduplicationKey(
+  taskConfig: TaskConfig | undefined,
+  data: unknown,
+  serializer: TaskSerializer = defaultSerializer,
+) {
+  const {
+    deduplicationKey,
+    deduplicationHashAlgorithm = "md5",
+    deduplicationHashFormat = "legacy",
+  } = taskConfig ?? {};
+
+  const serialized = deduplicationKey
+    ? canonicalStringify(
+        selectDeduplicationKey(data, deduplicationKey),
+        serializer,
+      )
+    : deduplicationHashFormat === "canonical"
+      ? canonicalStringify(data, serializer)
+      : typeof data === "string"
+        ? data
+        : JSON.stringify(serializer.serialize(data).json);
+
+  return crypto
+    .createHash(deduplicationHashAlgorithm)
+    .update(serialized)
+    .digest("hex");
+}
+
+/**
+ * Throws if a task name is not a valid Cloud Tasks task ID, so that the error
+ * is raised before the request is made and is not retried
+ *
+ * @param queueName - Name of the queue, for the error message
+ * @param taskName - The short task name
+ */
+export function assertValidTaskName(queueName: string, taskName: string) {
+  if (!taskIdPattern.test(taskName)) {
+    throw new Error(
+      `Invalid task name "${taskName}" for queue ${queueName}. Task names can only contain letters, numbers, hyphens and underscores, and can be at most 500 characters long.`,
+    );
+  }
+}
@@ -0,0 +1,18 @@
+import type { z } from "zod";
+import type { TypedTaskDefinition } from "./types";
+
+/**
+ * Defines a task with options that are typed by its schema, so that the fields
+ * of a deduplicationKey are checked against the payload and a deduplicationKey
+ * function receives the typed payload
+ *
+ * @param definition - The schema, scheduler options, previous versions and
+ *   output schema
+ * @returns The task definition, to use in the definitions of createTypedTasks
+ */
+export function defineTask<
+  Schema extends z.ZodType,
+  Output extends z.ZodType | undefined = undefined,
+>(definition: TypedTaskDefinition<Schema, Output>) {
+  return definition;
+}
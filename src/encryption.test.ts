@@ -0,0 +1,168 @@
+import crypto from "node:crypto";
+import { describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { createStaticKeyProvider } from "./encryption";
+import { createLocalTasksClient } from "./local-tasks-client";
+import { createTestTasks } from "./test-utils/test-tasks";
+import type { EncryptionKeyProvider } from "./types";
+
+const keys = { key1: crypto.randomBytes(32), key2: crypto.randomBytes(32) };
+
+function setup(
+  keyProvider: EncryptionKeyProvider,
+  client = createLocalTasksClient(),
+) {
+  return createTestTasks(
+    {
+      sendInvoice: {
+        schema: z.object({ email: z.string(), name: z.string() }),
+        options: { useDeduplication: true },
+      },
+      pingHealth: {
+        schema: z.object({ target: z.string() }),
+        options: { encryption: false },
+      },
+    },
+    { client, encryption: { keyProvider } },
+  );
+}
+
+describe("encryption", () => {
+  it("encrypts payloads and deduplicates them by their plaintext", async () => {
+    const { client, tasks } = setup(
+      createStaticKeyProvider({ keys, currentKeyId: "key1" }),
+    );
+    const handler = vi.fn(() => Promise.resolve());
+    tasks.createHandler({ queueName: "sendInvoice", handler });
+
+    const payload = { email: "a@example.com", name: "Ada" };
+    const first = await tasks.createScheduler("sendInvoice")(payload);
+    const second = await tasks.createScheduler("sendInvoice")(payload);
+    await tasks.createScheduler("pingHealth")({ target: "api" });
+
+    expect([first.outcome, second.outcome]).toEqual([
+      "created",
+      "deduplicated",
+    ]);
+
+    const [invoiceTask, pingTask] = client.getPendingTasks();
+    expect(JSON.stringify(invoiceTask?.data)).not.toContain("a@example.com");
+    expect(invoiceTask?.data).toMatchObject({
+      __typedTasks: { encryption: { keyId: "key1" } },
+    });
+    expect(pingTask?.data).toEqual({ target: "api" });
+
+    await client.runDueTasks();
+
+    expect(handler).toHaveBeenCalledExactlyOnceWith(payload, expect.anything());
+  });
+
+  it("decrypts pending tasks with the previous key after a rotation", async () => {
+    const { client, tasks: before } = setup(
+      createStaticKeyProvider({ keys, currentKeyId: "key1" }),
+    );
+    const { tasks: after } = setup(
+      createStaticKeyProvider({ keys, currentKeyId: "key2" }),
+      client,
+    );
+    const handler = vi.fn(() => Promise.resolve());
+    after.createHandler({ queueName: "sendInvoice", handler });
+
+    await before.createScheduler("sendInvoice")({ email: "a", name: "A" });
+    await after.createScheduler("sendInvoice")({ email: "b", name: "B" });
+
+    expect(
+      client
+        .getPendingTasks()
+        .map(
+          ({ data }) =>
+            (data as { __typedTasks: { encryption: { keyId: string } } })
+              .__typedTasks.encryption.keyId,
+        ),
+    ).toEqual(["key1", "key2"]);
+
+    await client.runDueTasks();
+
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it("retries tasks with a key that is not available", async () => {
+    const { client, tasks: before } = setup(
+      createStaticKeyProvider({ keys, currentKeyId: "key1" }),
+    );
+    const { tasks: after } = setup(
+      createStaticKeyProvider({
+        keys: { key2: keys.key2 },
+        currentKeyId: "key2",
+      }),
+      client,
+    );
+    const handler = vi.fn(() => Promise.resolve());
+    after.createHandler({ queueName: "sendInvoice", handler });
+
+    await before.createScheduler("sendInvoice")({ email: "a", name: "A" });
+    await client.runDueTasks();
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(client.getDispatches()).toMatchObject([
+      {
+        status: "retry",
+        error: { message: "Encryption key key1 is not available" },
+      },
+    ]);
+  });
+
+  it("retries tasks with an envelope that was modified", async () => {
+    const client = createLocalTasksClient();
+    const createTask = client.createTask.bind(client);
+
+    // Change the metadata of the encrypted payload before it is stored
+    vi.spyOn(client, "createTask").mockImplementation((request) => {
+      const body = JSON.parse(
+        Buffer.from(
+          String(request.task?.httpRequest?.body),
+          "base64",
+        ).toString(),
+      ) as { data: { __typedTasks: Record<string, unknown> } };
+      body.data.__typedTasks.serializationMeta = { email: "date" };
+
+      return createTask({
+        ...request,
+        task: {
+          ...request.task,
+          httpRequest: {
+            ...request.task?.httpRequest,
+            body: Buffer.from(JSON.stringify(body)).toString("base64"),
+          },
+        },
+      });
+    });
+
+    const { tasks } = setup(
+      createStaticKeyProvider({ keys, currentKeyId: "key1" }),
+      client,
+    );
+    const handler = vi.fn(() => Promise.resolve());
+    tasks.createHandler({ queueName: "sendInvoice", handler });
+
+    await tasks.createScheduler("sendInvoice")({ email: "a", name: "A" });
+    await client.runDueTasks();
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(client.getDispatches()).toMatchObject([
+      {
+        status: "retry",
+        error: { message: expect.stringContaining("unable to authenticate") },
+      },
+    ]);
+  });
+
+  it("requires 32 byte keys", () => {
+    expect(() =>
+      createStaticKeyProvider({
+        keys: { short: crypto.randomBytes(16) },
+        currentKeyId: "short",
+      }),
+    ).toThrow("AES-256-GCM requires 32 bytes");
+  });
+});
@@ -0,0 +1,151 @@
+import crypto from "node:crypto";
+import { canonicalStringify } from "./deduplication";
+import type { EnvelopeMetadata } from "./envelope";
+import type { TaskConfig } from "./task-registry";
+import type { EncryptionKeyProvider, TaskEncryptionOptions } from "./types";
+
+const algorithm = "aes-256-gcm";
+const keyBytes = 32;
+const ivBytes = 12;
+
+/** Throws if a key does not have the length that AES-256 requires */
+function assertKeyLength(keyId: string, key: Buffer) {
+  if (key.byteLength !== keyBytes) {
+    throw new Error(
+      `Encryption key ${keyId} is ${key.byteLength} bytes, but AES-256-GCM requires ${keyBytes} bytes`,
+    );
+  }
+}
+
+/**
+ * Returns the envelope fields that describe an encrypted payload, as additional
+ * authenticated data. Changing one of them in a task makes the decryption fail,
+ * instead of decoding the payload differently.
+ */
+function getAssociatedData(
+  keyId: string,
+  { encoding, serializationMeta, blobKey }: EnvelopeMetadata,
+) {
+  return Buffer.from(
+    canonicalStringify({ keyId, encoding, serializationMeta, blobKey }),
+  );
+}
+
+/**
+ * Creates a key provider with a fixed set of keys, for example from secrets
+ * that are loaded at startup. To rotate a key, add the new key, make it the
+ * current key, and remove the old key once no task that uses it is pending.
+ *
+ * @param options - The keys and the ID of the current key
+ * @param options.keys - The 32 byte keys by their ID
+ * @param options.currentKeyId - The ID of the key to encrypt new payloads with
+ * @returns A key provider that returns the given keys
+ */
+export function createStaticKeyProvider({
+  keys,
+  currentKeyId,
+}: {
+  keys: Record<string, Buffer>;
+  currentKeyId: string;
+}): EncryptionKeyProvider {
+  for (const [keyId, key] of Object.entries(keys)) {
+    assertKeyLength(keyId, key);
+  }
+
+  const currentKey = keys[currentKeyId];
+
+  if (!currentKey) {
+    throw new Error(`The current encryption key ${currentKeyId} is missing`);
+  }
+
+  return {
+    getCurrentKey: () =>
+      Promise.resolve({ keyId: currentKeyId, key: currentKey }),
+    getKey: (keyId) => Promise.resolve(keys[keyId]),
+  };
+}
+
+/**
+ * Returns the encryption options of a queue. The options of the task definition
+ * take precedence, and false disables encryption for the queue.
+ */
+export function resolveEncryption(
+  taskConfig: TaskConfig | undefined,
+  globalEncryption: TaskEncryptionOptions | undefined,
+) {
+  return taskConfig?.encryption === false
+    ? undefined
+    : (taskConfig?.encryption ?? globalEncryption);
+}
+
+/**
+ * Encrypts the content of a payload with the current key of the provider
+ *
+ * @param content - The encoded payload
+ * @param keyProvider - Provides the current key
+ * @param metadata - The envelope metadata of the payload, of which the
+ *   encoding, serialization meta and blob key are authenticated
+ * @returns The encrypted content and the parameters to store in the envelope
+ */
+export async function encryptContent(
+  content: Buffer,
+  keyProvider: EncryptionKeyProvider,
+  metadata: EnvelopeMetadata,
+) {
+  const { keyId, key } = await keyProvider.getCurrentKey();
+  assertKeyLength(keyId, key);
+
+  const iv = crypto.randomBytes(ivBytes);
+  const cipher = crypto.createCipheriv(algorithm, key, iv);
+  cipher.setAAD(getAssociatedData(keyId, metadata));
+  const encrypted = Buffer.concat([cipher.update(content), cipher.final()]);
+
+  return {
+    content: encrypted,
+    encryption: {
+      keyId,
+      iv: iv.toString("base64"),
+      authTag: cipher.getAuthTag().toString("base64"),
+    },
+  };
+}
+
+/**
+ * Decrypts the content of a payload with the key that encrypted it
+ *
+ * @param content - The encrypted payload
+ * @param encryption - The key ID and parameters from the envelope
+ * @param metadata - The envelope metadata of the payload
+ * @param keyProvider - Provides the key by its ID
+ * @returns The decrypted content
+ * @throws When the key is not available or the content or its metadata was
+ *   modified, so that Cloud Tasks retries the task
+ */
+export async function decryptContent(
+  content: Buffer,
+  { keyId, iv, authTag }: NonNullable<EnvelopeMetadata["encryption"]>,
+  metadata: EnvelopeMetadata,
+  keyProvider: EncryptionKeyProvider | undefined,
+) {
+  if (!keyProvider) {
+    throw new Error(
+      `The payload is encrypted with key ${keyId}, which requires the encryption option of createTypedTasks or the task definition`,
+    );
+  }
+
+  const key = await keyProvider.getKey(keyId);
+
+  if (!key) {
+    throw new Error(`Encryption key ${keyId} is not available`);
+  }
+
+  const decipher = crypto.createDecipheriv(
+    algorithm,
+    key,
+    Buffer.from(iv, "base64"),
+  );
+  decipher.setAuthTag(Buffer.from(authTag, "base64"));
+  decipher.setAAD(getAssociatedData(keyId, metadata));
+
+  return Buffer.concat([decipher.update(content), decipher.final()]);
+}
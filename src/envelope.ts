@@ -0,0 +1,98 @@
+import type { GroupMetadata, GroupSummary, WorkflowMetadata } from "./types";
+
+/**
+ * Key under which typed-tasks stores its own metadata in the task data.
+ * Firebase only passes the "data" key of the body to the handler, so the
+ * metadata has to live inside it, next to the payload.
+ */
+const envelopeKey = "__typedTasks";
+
+/** Metadata that the scheduler stores with the payload */
+export type EnvelopeMetadata = {
+  /** Schema version of the payload */
+  version?: number;
+  /**
+   * ISO string of the time the task should run, for tasks that are chained
+   * across the schedule limit of Cloud Tasks
+   */
+  runAt?: string;
+  /** The schedule of a recurring task, to enqueue the next run */
+  recurrence?: { cron: string; id: string };
+  /** The workflow step of the task, to schedule the next step */
+  workflow?: WorkflowMetadata;
+  /** The group of the task, to record its status */
+  group?: GroupMetadata;
+  /** The results of the group, for the completion task of a group */
+  groupSummary?: GroupSummary;
+  /**
+   * Encoding of the payload. A gzipped payload is a base64 string, or the
+   * content of the blob.
+   */
+  encoding?: "gzip";
+  /** Key of the payload in the blob store, for payloads that were offloaded */
+  blobKey?: string;
+  /** Meta of the serializer, to restore values that JSON can not represent */
+  serializationMeta?: unknown;
+  /**
+   * The key and parameters of an encrypted payload. An encrypted payload is a
+   * base64 string, or the content of the blob.
+   */
+  encryption?: { keyId: string; iv: string; authTag: string };
+  /**
+   * Number of attempts before a retry that was delayed by a RetryableTaskError,
+   * which Cloud Tasks counts as a new task
+   */
+  previousAttempts?: number;
+  /**
+   * Marks a task without a payload, which the handler acknowledges: the task
+   * that is scheduled at the end of a deduplication window in leading and
+   * throttle mode, or the task that takes the name of the next run of a
+   * cancelled recurrence
+   */
+  windowMarker?: true;
+};
+
+/** Task data with the payload wrapped together with its metadata */
+type TaskEnvelope = {
+  [envelopeKey]: EnvelopeMetadata;
+  payload: unknown;
+};
+
+function isTaskEnvelope(data: unknown): data is TaskEnvelope {
+  return (
+    typeof data === "object" &&
+    data !== null &&
+    envelopeKey in data &&
+    "payload" in data
+  );
+}
+
+/**
+ * Wraps a payload in an envelope with metadata
+ *
+ * @param payload - The payload to schedule
+ * @param metadata - The metadata to store with the payload
+ * @returns The data to put in the "data" key of the task body
+ */
+export function wrapPayload(
+  payload: unknown,
+  metadata: EnvelopeMetadata,
+): TaskEnvelope {
+  return { [envelopeKey]: metadata, payload };
+}
+
+/**
+ * Unwraps the payload from the task data. Data that was scheduled without an
+ * envelope is returned as the payload, with empty metadata.
+ *
+ * @param data - The "data" key of the task body
+ * @returns The payload and its metadata
+ */
+export function unwrapPayload(data: unknown): {
+  payload: unknown;
+  metadata: EnvelopeMetadata;
+} {
+  return isTaskEnvelope(data)
+    ? { payload: data.payload, metadata: data[envelopeKey] }
+    : { payload: data, metadata: {} };
+}
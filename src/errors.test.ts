@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { PermanentTaskError, RetryableTaskError } from "./errors";
+import { createTestTasks } from "./test-utils/test-tasks";
+import type { DeadLetterEntry, TaskMetadata } from "./types";
+
+function setup(handler: (metadata: TaskMetadata) => Promise<void>) {
+  const entries: DeadLetterEntry[] = [];
+  const { client, tasks } = createTestTasks(
+    {
+      syncAccount: {
+        schema: z.object({ accountId: z.string() }),
+        options: {
+          deadLetter: {
+            sink: async (entry) => {
+              entries.push(entry);
+            },
+          },
+        },
+      },
+    },
+    { options: { retryConfig: { maxAttempts: 3, minBackoffSeconds: 10 } } },
+  );
+
+  tasks.createHandler({
+    queueName: "syncAccount",
+    handler: (_payload, metadata) => handler(metadata),
+  });
+
+  return {
+    client,
+    entries,
+    schedule: () => tasks.createScheduler("syncAccount")({ accountId: "a1" }),
+  };
+}
+
+describe("handler errors", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(1_700_000_000_000);
+    vi.spyOn(console, "info").mockImplementation(() => undefined);
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("dead-letters a permanent error without retrying it", async () => {
+    const handler = vi.fn(() =>
+      Promise.reject(new PermanentTaskError("Account was deleted")),
+    );
+    const { client, entries, schedule } = setup(handler);
+
+    await schedule();
+    await client.runDueTasks();
+
+    expect(handler).toHaveBeenCalledOnce();
+    expect(client.getDispatches().map(({ status }) => status)).toEqual([
+      "success",
+    ]);
+    expect(entries).toMatchObject([
+      {
+        payload: { accountId: "a1" },
+        reason: "permanent",
+        error: { name: "PermanentTaskError", message: "Account was deleted" },
+      },
+    ]);
+  });
+
+  it("retries a retryable error after the suggested delay", async () => {
+    const handler = vi.fn((metadata: TaskMetadata) =>
+      Promise.reject(
+        new RetryableTaskError(
+          `Rate limited on attempt ${metadata.retryCount}`,
+          { retryAfterSeconds: 60 },
+        ),
+      ),
+    );
+    const { client, entries, schedule } = setup(handler);
+
+    await schedule();
+    await client.runDueTasks();
+
+    expect(client.getPendingTasks()).toMatchObject([
+      {
+        scheduleTime: new Date(1_700_000_060_000),
+        data: { __typedTasks: { previousAttempts: 1 } },
+      },
+    ]);
+
+    vi.advanceTimersByTime(60_000);
+    await client.runDueTasks();
+    vi.advanceTimersByTime(60_000);
+    await client.runDueTasks();
+
+    // The attempts keep counting towards maxAttempts across the delays
+    expect(
+      handler.mock.calls.map(([{ retryCount, isLastAttempt }]) => ({
+        retryCount,
+        isLastAttempt,
+      })),
+    ).toEqual([
+      { retryCount: 0, isLastAttempt: false },
+      { retryCount: 1, isLastAttempt: false },
+      { retryCount: 2, isLastAttempt: true },
+    ]);
+    expect(client.getPendingTasks()).toEqual([]);
+    expect(entries).toMatchObject([
+      {
+        reason: "exhausted",
+        error: { message: "Rate limited on attempt 2" },
+        metadata: { retryCount: 2 },
+      },
+    ]);
+  });
+
+  it("retries a retryable error without a delay with the retry config", async () => {
+    const handler = vi.fn(() =>
+      Promise.reject(new RetryableTaskError("Service unavailable")),
+    );
+    const { client, schedule } = setup(handler);
+
+    await schedule();
+    await client.runDueTasks();
+
+    expect(client.getDispatches()).toMatchObject([
+      { status: "retry", error: { name: "RetryableTaskError" } },
+    ]);
+    expect(client.getPendingTasks()).toMatchObject([
+      { scheduleTime: new Date(1_700_000_010_000), retryCount: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,88 @@
+import type { z } from "zod";
+
+/**
+ * Thrown by a scheduler when validation on schedule is set to "throw" and the
+ * payload does not match the schema of the queue
+ */
+export class TaskValidationError extends Error {
+  /** Name of the queue the task was scheduled on */
+  readonly queueName: string;
+  /** The Zod issues that describe why the payload is invalid */
+  readonly issues: z.ZodError["issues"];
+
+  constructor(queueName: string, error: z.ZodError) {
+    super(`Invalid payload for queue ${queueName}: ${error.message}`, {
+      cause: error,
+    });
+    this.name = "TaskValidationError";
+    this.queueName = queueName;
+    this.issues = error.issues;
+  }
+}
+
+/**
+ * Thrown by a scheduler when the schedule options conflict with each other or
+ * with the deduplication settings of the queue, when the task is scheduled
+ * further ahead than Cloud Tasks allows, or when a throttle window has no free
+ * revision
+ */
+export class TaskScheduleError extends Error {
+  /** Name of the queue the task was scheduled on */
+  readonly queueName: string;
+
+  constructor(queueName: string, message: string) {
+    super(`Invalid schedule for queue ${queueName}: ${message}`);
+    this.name = "TaskScheduleError";
+    this.queueName = queueName;
+  }
+}
+
+/**
+ * Thrown by a handler when a task can never succeed, for example because the
+ * entity it refers to was deleted. The task is not retried. It is dead-lettered
+ * when the queue has a dead-letter configuration, like an invalid payload.
+ */
+export class PermanentTaskError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "PermanentTaskError";
+  }
+}
+
+/**
+ * Thrown by a handler when a task failed but can succeed later, for example
+ * because a service is unavailable. The task is retried, after the suggested
+ * delay when one is given, and otherwise with the retry config of the handler.
+ */
+export class RetryableTaskError extends Error {
+  /** Seconds to wait before the next attempt, for example from a Retry-After */
+  readonly retryAfterSeconds?: number;
+
+  constructor(
+    message: string,
+    options?: { retryAfterSeconds?: number; cause?: unknown },
+  ) {
+    super(message, { cause: options?.cause });
+    this.name = "RetryableTaskError";
+    this.retryAfterSeconds = options?.retryAfterSeconds;
+  }
+}
+
+/**
+ * The error of a handler that did not finish within its timeoutMs or the
+ * timeoutSeconds of its function. It is a RetryableTaskError, so the task is
+ * retried with the retry config of the handler.
+ */
+export class TaskTimeoutError extends RetryableTaskError {
+  /** Name of the queue of the handler */
+  readonly queueName: string;
+  /** The time the handler was allowed to run, in milliseconds */
+  readonly timeoutMs: number;
+
+  constructor(queueName: string, timeoutMs: number) {
+    super(`The handler for queue ${queueName} timed out after ${timeoutMs} ms`);
+    this.name = "TaskTimeoutError";
+    this.queueName = queueName;
+    this.timeoutMs = timeoutMs;
+  }
+}
@@ -1,23 +1,56 @@
-import type { CloudTasksClient } from "@google-cloud/tasks";
+import { got } from "get-or-throw";
 import { z } from "zod";
 import { defaultHandlerOptions } from "./constants";
-import { createTaskHandlerFactory } from "./handler";
-import { createSchedulerFactory } from "./scheduler";
+import { createRecurringScheduler } from "./continuation";
+import {
+  createDeadLetterReplayerFactory,
+  createDeadLetterSender,
+} from "./dead-letter";
+import { resolveEncryption } from "./encryption";
+import { createGroupRecorder, createGroupScheduler } from "./group";
+import { createTaskHandlerFactory, mergeHandlerOptions } from "./handler";
+import { widenHooks } from "./hooks";
+import { isLocalTasksClient } from "./local-tasks-client";
+import { widenMiddleware } from "./middleware";
+import { createQueueAdmin, createQueueSyncer } from "./queues";
+import {
+  createBatchSchedulerFactory,
+  createContinuationScheduler,
+  createSchedulerFactory,
+} from "./scheduler";
+import { createTaskLookup } from "./task-lookup";
 import { createTaskRegistry } from "./task-registry";
 import type {
+  BlobStore,
+  GlobalTaskMiddleware,
+  GroupStore,
+  IdempotencyOptions,
+  IdempotencyStore,
+  ScheduleValidationMode,
   SchemaRecord,
+  TaskDefinition,
   TaskDefinitionRecord,
+  TaskEncryptionOptions,
   TaskHandlerOptions,
-  TaskSchedulerOptions,
+  TaskHooks,
+  TaskInput,
+  TaskLogger,
+  TaskMetadata,
+  TaskMiddleware,
+  TaskScheduleOptions,
+  TaskSerializer,
+  TasksClient,
+  TaskTargetOptions,
   TypedTasksClient,
 } from "./types";
+import { createWorkflowFactory, createWorkflowRegistry } from "./workflow";
 
 /**
  * Utility to check if a task definition is a direct schema or an object with
  * schema
  */
 function isSchemaDefinition(
-  definition: z.ZodType | { schema: z.ZodType; options?: TaskSchedulerOptions },
+  definition: TaskDefinition,
 ): definition is z.ZodType {
   return typeof definition === "function" || "parse" in definition;
 }
@@ -27,13 +60,34 @@ function isSchemaDefinition(
  * schema validation
  *
  * @param options - Options object containing client configuration
- * @param options.tasksClient - Google Cloud Tasks client instance
+ * @param options.client - Google Cloud Tasks client instance, or a local tasks
+ *   client for testing
  * @param options.taskDefinitions - Object containing schema and options for
  *   each task
  * @param options.projectId - GCP project ID
  * @param options.region - GCP region for the Cloud Tasks
  * @param options.options - Optional configuration options for all tasks
- * @returns Type-safe Tasks client with scheduler and handler factories
+ * @param options.logger - Optional logger, defaults to the console
+ * @param options.hooks - Optional lifecycle hooks for scheduling and handling
+ *   tasks
+ * @param options.middleware - Optional middleware that runs for all handlers
+ * @param options.target - Optional target URL resolver and OIDC settings for
+ *   all queues
+ * @param options.validateOnSchedule - Optional validation of payloads before
+ *   they are scheduled, defaults to "off"
+ * @param options.groupStore - Optional store for the state of task groups,
+ *   required to use scheduleGroup
+ * @param options.idempotencyStore - Optional store for idempotency keys,
+ *   required by handlers with the idempotency option
+ * @param options.blobStore - Optional store for payloads that are too large for
+ *   a task, required by the offloadThresholdBytes option
+ * @param options.serializer - Optional serializer that converts payloads to
+ *   JSON and back, defaults to a serializer that keeps Dates, BigInts, Maps and
+ *   Sets
+ * @param options.encryption - Optional encryption of the payloads of all
+ *   queues, with the key provider
+ * @returns Type-safe Tasks client with scheduler, batch scheduler and handler
+ *   factories
  */
 export function createTypedTasks<
   TaskDefs extends TaskDefinitionRecord<string>,
@@ -43,12 +97,32 @@ export function createTypedTasks<
   projectId,
   region,
   options = {},
+  logger = console,
+  hooks = {},
+  middleware = [],
+  target = {},
+  validateOnSchedule = "off",
+  groupStore,
+  idempotencyStore,
+  blobStore,
+  serializer,
+  encryption,
 }: {
-  client: CloudTasksClient;
+  client: TasksClient;
   definitions: TaskDefs;
   projectId: string;
   region: string;
   options?: TaskHandlerOptions;
+  logger?: TaskLogger;
+  hooks?: TaskHooks<TaskDefs>;
+  middleware?: GlobalTaskMiddleware<TaskDefs>[];
+  target?: TaskTargetOptions;
+  validateOnSchedule?: ScheduleValidationMode;
+  groupStore?: GroupStore;
+  idempotencyStore?: IdempotencyStore;
+  blobStore?: BlobStore;
+  serializer?: TaskSerializer;
+  encryption?: TaskEncryptionOptions;
 }): TypedTasksClient<TaskDefs> {
   // Merge default handler options with options passed to createTypedTasks
   const globalHandlerOptions: TaskHandlerOptions = {
@@ -81,45 +155,285 @@ export function createTypedTasks<
 
   // Populate task registry with scheduler options from taskDefinitions
   Object.entries(definitions).forEach(([queueName, definition]) => {
+    // Only object with schema+versions will have previous schema versions
+    if (!isSchemaDefinition(definition) && definition.versions?.length) {
+      taskRegistry.set(queueName, { versions: definition.versions });
+    }
+
+    // Only object with schema+output will have an output schema
+    if (!isSchemaDefinition(definition) && definition.output) {
+      taskRegistry.set(queueName, {
+        ...taskRegistry.get(queueName),
+        output: definition.output,
+      });
+    }
+
     // Only object with schema+options will have scheduler options
     if (!isSchemaDefinition(definition) && definition.options) {
       const deduplicationWindowSeconds =
         definition.options.deduplicationWindowSeconds;
       const useDeduplication =
         !!definition.options.useDeduplication ||
+        !!definition.options.deduplicationKey ||
         (!!deduplicationWindowSeconds && deduplicationWindowSeconds > 0);
 
+      const { deadLetter } = definition.options;
+
+      if (
+        deadLetter &&
+        "queueName" in deadLetter &&
+        (!(deadLetter.queueName in definitions) ||
+          deadLetter.queueName === queueName)
+      ) {
+        throw new Error(
+          `Invalid dead-letter queue ${deadLetter.queueName} for queue ${queueName}. It must be another queue from the task definitions.`,
+        );
+      }
+
+      // Dead-letter entries contain the payload, so it must stay encrypted
+      if (deadLetter && "queueName" in deadLetter) {
+        const deadLetterDefinition = got(definitions, deadLetter.queueName);
+
+        if (
+          resolveEncryption(definition.options, encryption) &&
+          !resolveEncryption(
+            isSchemaDefinition(deadLetterDefinition)
+              ? undefined
+              : deadLetterDefinition.options,
+            encryption,
+          )
+        ) {
+          throw new Error(
+            `The dead-letter queue ${deadLetter.queueName} of queue ${queueName} must be encrypted, because queue ${queueName} is encrypted`,
+          );
+        }
+      }
+
+      // Without a key, every distinct payload would be throttled on its own
+      if (
+        definition.options.deduplicationMode === "throttle" &&
+        !definition.options.deduplicationKey
+      ) {
+        throw new Error(
+          `The throttle deduplication mode of queue ${queueName} requires a deduplicationKey, which selects the calls that replace each other`,
+        );
+      }
+
+      if (
+        definition.options.offloadThresholdBytes !== undefined &&
+        !blobStore
+      ) {
+        throw new Error(
+          `The offloadThresholdBytes option of queue ${queueName} requires a blobStore in the options of createTypedTasks`,
+        );
+      }
+
       taskRegistry.set(queueName, {
+        ...taskRegistry.get(queueName),
         deduplicationWindowSeconds,
+        deduplicationMode: definition.options.deduplicationMode,
         useDeduplication,
+        deduplicationKey: definition.options.deduplicationKey,
+        deduplicationHashAlgorithm:
+          definition.options.deduplicationHashAlgorithm,
+        deduplicationHashFormat: definition.options.deduplicationHashFormat,
+        deadLetter,
+        target: definition.options.target,
+        region: definition.options.region,
+        projectId: definition.options.projectId,
+        validateOnSchedule: definition.options.validateOnSchedule,
+        scheduleBeyondLimit: definition.options.scheduleBeyondLimit,
+        compression: definition.options.compression,
+        compressionThresholdBytes: definition.options.compressionThresholdBytes,
+        offloadThresholdBytes: definition.options.offloadThresholdBytes,
+        encryption: definition.options.encryption,
       });
     }
   });
 
+  // The hooks are typed per queue for the user, but called generically
+  const settings = { logger, hooks: widenHooks(hooks) };
+  const schedulerSettings = {
+    ...settings,
+    target,
+    schemas,
+    validateOnSchedule,
+    blobStore,
+    serializer,
+    encryption,
+  };
+
   // Get createScheduler factory function
   const schedulerFactory = createSchedulerFactory<TaskDefs>(
     client,
     projectId,
     region,
     taskRegistry,
+    schedulerSettings,
+  );
+
+  // Get createBatchScheduler factory function
+  const batchSchedulerFactory = createBatchSchedulerFactory<TaskDefs>(
+    client,
+    projectId,
+    region,
+    taskRegistry,
+    schedulerSettings,
+  );
+
+  /**
+   * Schedule a task on a queue that is only known at runtime, like a
+   * dead-letter queue
+   */
+  const scheduleOnQueue = (
+    queueName: string,
+    data: unknown,
+    scheduleOptions?: TaskScheduleOptions,
+  ) =>
+    schedulerFactory(queueName as keyof TaskDefs & string)(
+      data as TaskInput<TaskDefs, keyof TaskDefs & string>,
+      scheduleOptions,
+    );
+
+  // Schedules the next link of chained tasks and the next run of recurring tasks
+  const scheduleContinuation = createContinuationScheduler(
+    client,
+    projectId,
+    region,
+    taskRegistry,
+    schedulerSettings,
   );
 
+  // Workflows are registered when they are built, before tasks are handled
+  const workflows = createWorkflowRegistry();
+
   // Get createHandler factory function
   const handlerFactory = createTaskHandlerFactory(
     schemas,
     region,
     globalHandlerOptions,
+    {
+      ...settings,
+      middleware: middleware.map(widenMiddleware),
+      sendToDeadLetter: createDeadLetterSender(taskRegistry, scheduleOnQueue),
+      scheduleContinuation,
+      taskRegistry,
+      workflows,
+      recordGroupResult: createGroupRecorder(groupStore, scheduleContinuation),
+      idempotencyStore,
+      blobStore,
+      serializer,
+      encryption,
+    },
+  );
+
+  const { getTask, cancelTask, cancelRecurring } = createTaskLookup(
+    client,
+    projectId,
+    region,
+    schemas,
+    taskRegistry,
+    { blobStore, serializer, encryption },
+  );
+
+  const { pauseQueue, resumeQueue, purgeQueue, listTasks } = createQueueAdmin(
+    client,
+    projectId,
+    region,
+    taskRegistry,
+    schemas,
+    logger,
+    { blobStore, serializer, encryption },
+  );
+
+  /**
+   * Handler options by queue name, so syncQueues can use the handler config. It
+   * only holds the handlers that were created in this process.
+   */
+  const handlerOptionsRegistry = new Map<string, TaskHandlerOptions>();
+
+  const syncQueues = createQueueSyncer(
+    client,
+    projectId,
+    region,
+    taskRegistry,
+    Object.keys(definitions),
+    (queueName, queueOptions = {}) => {
+      const handlerOptions = handlerOptionsRegistry.get(queueName);
+
+      if (!handlerOptions) {
+        return undefined;
+      }
+
+      return mergeHandlerOptions(globalHandlerOptions, {
+        ...handlerOptions,
+        rateLimits: {
+          ...handlerOptions.rateLimits,
+          ...queueOptions.rateLimits,
+        },
+        retryConfig: {
+          ...handlerOptions.retryConfig,
+          ...queueOptions.retryConfig,
+        },
+      });
+    },
+    logger,
   );
 
   // Create a proxy to handle direct access to task names
   const tasksProxy = {
     createScheduler: schedulerFactory,
+    createBatchScheduler: batchSchedulerFactory,
+    createDeadLetterReplayer: createDeadLetterReplayerFactory<{
+      [K in keyof TaskDefs & string]: TaskInput<TaskDefs, K>;
+    }>(schemas, scheduleOnQueue),
+    scheduleRecurring: createRecurringScheduler(
+      scheduleContinuation,
+      serializer,
+    ),
+    cancelRecurring,
+    scheduleGroup: createGroupScheduler(
+      groupStore,
+      scheduleContinuation,
+      (queueName) =>
+        mergeHandlerOptions(
+          globalHandlerOptions,
+          handlerOptionsRegistry.get(queueName),
+        ).retryConfig,
+    ),
+    createWorkflow: createWorkflowFactory(workflows, scheduleContinuation),
+    getTask,
+    cancelTask,
+    pauseQueue,
+    resumeQueue,
+    purgeQueue,
+    listTasks,
+    syncQueues,
     createHandler: <T extends keyof TaskDefs & string>(config: {
       queueName: T;
       options?: TaskHandlerOptions;
-      handler: (payload: z.infer<(typeof schemas)[T]>) => Promise<void>;
+      middleware?: TaskMiddleware<z.infer<(typeof schemas)[T]>, T>[];
+      idempotency?: IdempotencyOptions<z.infer<(typeof schemas)[T]>>;
+      timeoutMs?: number;
+      handler: (
+        payload: z.infer<(typeof schemas)[T]>,
+        metadata: TaskMetadata,
+      ) => Promise<unknown>;
     }) => {
-      return handlerFactory(config);
+      const handler = handlerFactory(config);
+
+      handlerOptionsRegistry.set(config.queueName, config.options ?? {});
+
+      // Let the local tasks client dispatch tasks to this handler
+      if (isLocalTasksClient(client)) {
+        client.registerHandler(
+          config.queueName,
+          handler,
+          mergeHandlerOptions(globalHandlerOptions, config.options).retryConfig,
+        );
+      }
+
+      return handler;
     },
   } as TypedTasksClient<TaskDefs> & Record<string, unknown>;
 
@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { createMemoryGroupStore } from "./group";
+import { createTestTasks } from "./test-utils/test-tasks";
+import type { TaskMetadata } from "./types";
+
+const definitions = {
+  syncShard: z.object({ shard: z.number() }),
+  reportSync: z.object({ startedBy: z.string() }),
+};
+
+function setup({ withGroupStore = true } = {}) {
+  return createTestTasks(definitions, {
+    groupStore: withGroupStore ? createMemoryGroupStore() : undefined,
+  });
+}
+
+describe("scheduleGroup", () => {
+  it("runs the completion task once after all tasks finished", async () => {
+    const { client, tasks } = setup();
+    const completions: TaskMetadata[] = [];
+
+    tasks.createHandler({
+      queueName: "syncShard",
+      options: { retryConfig: { maxAttempts: 1 } },
+      handler: async ({ shard }) => {
+        if (shard === 2) {
+          throw new Error("Shard unavailable");
+        }
+      },
+    });
+    tasks.createHandler({
+      queueName: "reportSync",
+      handler: async (_payload, metadata) => {
+        completions.push(metadata);
+      },
+    });
+
+    const options = {
+      groupId: "sync-1",
+      onComplete: { queueName: "reportSync", payload: { startedBy: "admin" } },
+    } as const;
+    const { results } = await tasks.scheduleGroup(
+      "syncShard",
+      [{ shard: 1 }, { shard: 2 }, { shard: 3 }],
+      options,
+    );
+
+    await client.runDueTasks();
+
+    const repeated = await tasks.scheduleGroup(
+      "syncShard",
+      [{ shard: 1 }, { shard: 2 }, { shard: 3 }],
+      options,
+    );
+    await client.runDueTasks();
+
+    expect(results.map(({ status }) => status)).toEqual([
+      "scheduled",
+      "scheduled",
+      "scheduled",
+    ]);
+    expect(repeated.results.map(({ status }) => status)).toEqual([
+      "deduplicated",
+      "deduplicated",
+      "deduplicated",
+    ]);
+    expect(completions).toHaveLength(1);
+    expect(completions[0]?.groupSummary).toEqual({
+      groupId: "sync-1",
+      total: 3,
+      succeeded: 2,
+      failed: 1,
+      failedIndexes: [1],
+    });
+  });
+
+  it("completes a group without tasks right away", async () => {
+    const { client, tasks } = setup();
+
+    const { groupId } = await tasks.scheduleGroup("syncShard", [], {
+      onComplete: { queueName: "reportSync", payload: { startedBy: "admin" } },
+    });
+
+    expect(client.getPendingTasks()).toMatchObject([
+      {
+        queueName: "reportSync",
+        data: {
+          __typedTasks: {
+            groupSummary: { groupId, total: 0, succeeded: 0, failed: 0 },
+          },
+        },
+      },
+    ]);
+  });
+
+  it("requires a group store", async () => {
+    const { tasks } = setup({ withGroupStore: false });
+
+    await expect(
+      tasks.scheduleGroup("syncShard", [{ shard: 1 }], {
+        onComplete: { queueName: "reportSync", payload: { startedBy: "a" } },
+      }),
+    ).rejects.toThrow("Task groups require a groupStore");
+  });
+
+  it("requires a retry config that determines the last attempt", async () => {
+    const { tasks } = setup();
+
+    tasks.createHandler({
+      queueName: "syncShard",
+      options: { retryConfig: { maxAttempts: -1 } },
+      handler: () => Promise.resolve(),
+    });
+
+    await expect(
+      tasks.scheduleGroup("syncShard", [{ shard: 1 }], {
+        onComplete: { queueName: "reportSync", payload: { startedBy: "a" } },
+      }),
+    ).rejects.toThrow("require a retry config with a positive maxAttempts");
+  });
+});
@@ -0,0 +1,237 @@
+import crypto from "node:crypto";
+import { defaultBatchConcurrency } from "./constants";
+import type { ScheduleContinuation } from "./continuation";
+import { getLastAttemptLimit } from "./handler";
+import { mapWithConcurrency } from "./scheduler";
+import type {
+  GroupMetadata,
+  GroupScheduleOptions,
+  GroupState,
+  GroupStore,
+  GroupSummary,
+  GroupTaskStatus,
+} from "./types";
+
+/**
+ * Returns the name of a task of a group, or of its completion task. The names
+ * are derived from the group ID, so that scheduling a group again, or recording
+ * the last status twice, does not create the tasks twice.
+ *
+ * @param groupId - The ID of the group
+ * @param index - The position of the task, or "complete" for the completion
+ *   task
+ * @returns The short task name
+ */
+export function getGroupTaskName(groupId: string, index: number | "complete") {
+  return crypto.createHash("md5").update(`${groupId}/${index}`).digest("hex");
+}
+
+/**
+ * Creates a group store that keeps the state of each group in a Map. Creating a
+ * group that exists keeps its results, and the state is cloned when it is
+ * returned, so a handler sees the results as they were when it recorded its
+ * own. See the testing docs for using it with the local tasks client.
+ *
+ * @returns A group store backed by a Map
+ */
+export function createMemoryGroupStore(): GroupStore {
+  const groups = new Map<string, GroupState>();
+
+  return {
+    createGroup: (state) => {
+      if (!groups.has(state.groupId)) {
+        groups.set(state.groupId, structuredClone(state));
+      }
+
+      return Promise.resolve();
+    },
+    recordResult: (groupId, index, status) => {
+      const state = groups.get(groupId);
+
+      if (state) {
+        state.results[index] = status;
+      }
+
+      return Promise.resolve(state && structuredClone(state));
+    },
+    markCompleted: (groupId) => {
+      const state = groups.get(groupId);
+
+      if (state) {
+        state.isCompleted = true;
+      }
+
+      return Promise.resolve();
+    },
+  };
+}
+
+/** Counts the statuses of the tasks of a group */
+function getGroupSummary({
+  groupId,
+  total,
+  results,
+}: GroupState): GroupSummary {
+  const failedIndexes = Object.entries(results)
+    .filter(([, status]) => status === "failed")
+    .map(([index]) => Number(index))
+    .sort((a, b) => a - b);
+
+  return {
+    groupId,
+    total,
+    succeeded: Object.values(results).length - failedIndexes.length,
+    failed: failedIndexes.length,
+    failedIndexes,
+  };
+}
+
+/**
+ * Schedules the completion task of a group if all of its tasks finished and it
+ * was not completed before
+ */
+async function completeIfFinished(
+  groupStore: GroupStore,
+  scheduleContinuation: ScheduleContinuation,
+  state: GroupState,
+) {
+  if (state.isCompleted || Object.keys(state.results).length < state.total) {
+    return;
+  }
+
+  await scheduleContinuation(
+    state.onComplete.queueName,
+    state.onComplete.payload,
+    new Date(Date.now()),
+    {
+      taskName: getGroupTaskName(state.groupId, "complete"),
+      metadata: { groupSummary: getGroupSummary(state) },
+    },
+  );
+  await groupStore.markCompleted(state.groupId);
+}
+
+/** Returns the group store, or throws when none was configured */
+function getGroupStore(groupStore: GroupStore | undefined) {
+  if (!groupStore) {
+    throw new Error(
+      "Task groups require a groupStore in the options of createTypedTasks",
+    );
+  }
+
+  return groupStore;
+}
+
+/**
+ * Creates the function that records the status of a task in its group, and
+ * schedules the completion task when it was the last task to finish
+ *
+ * @param groupStore - The store with the state of the groups
+ * @param scheduleContinuation - Schedules a task with a fixed name and metadata
+ * @returns A function that records the status of a task
+ */
+export function createGroupRecorder(
+  groupStore: GroupStore | undefined,
+  scheduleContinuation: ScheduleContinuation,
+) {
+  return async ({ groupId, index }: GroupMetadata, status: GroupTaskStatus) => {
+    const store = getGroupStore(groupStore);
+    const state = await store.recordResult(groupId, index, status);
+
+    if (!state) {
+      throw new Error(`Group ${groupId} does not exist in the group store`);
+    }
+
+    await completeIfFinished(store, scheduleContinuation, state);
+  };
+}
+
+/**
+ * Creates the function that schedules groups of tasks
+ *
+ * @param groupStore - The store with the state of the groups
+ * @param scheduleContinuation - Schedules a task with a fixed name and metadata
+ * @param getRetryConfig - Returns the retry config of the handler of a queue
+ * @returns The scheduleGroup function
+ */
+export function createGroupScheduler(
+  groupStore: GroupStore | undefined,
+  scheduleContinuation: ScheduleContinuation,
+  getRetryConfig: (queueName: string) => {
+    maxAttempts?: unknown;
+    maxRetrySeconds?: unknown;
+  },
+) {
+  const recordResult = createGroupRecorder(groupStore, scheduleContinuation);
+
+  return async (
+    queueName: string,
+    payloads: unknown[],
+    {
+      groupId = crypto.randomUUID(),
+      onComplete,
+      concurrency = defaultBatchConcurrency,
+    }: GroupScheduleOptions<string, unknown>,
+  ) => {
+    const store = getGroupStore(groupStore);
+
+    // A task that keeps failing is only recorded on its last attempt
+    if (getLastAttemptLimit(getRetryConfig(queueName)) === undefined) {
+      throw new Error(
+        `Task groups on queue ${queueName} require a retry config with a positive maxAttempts and without maxRetrySeconds, so that failed tasks are recorded on their last attempt`,
+      );
+    }
+
+    const state: GroupState = {
+      groupId,
+      total: payloads.length,
+      results: {},
+      onComplete,
+      isCompleted: false,
+    };
+
+    // The state has to exist before any task of the group can finish
+    await store.createGroup(state);
+
+    // A group without tasks is finished right away
+    if (payloads.length === 0) {
+      await completeIfFinished(store, scheduleContinuation, state);
+    }
+
+    const results = await mapWithConcurrency(
+      payloads,
+      concurrency,
+      async (data, index) => {
+        const group = { groupId, index };
+
+        try {
+          const result = await scheduleContinuation(
+            queueName,
+            data,
+            new Date(Date.now()),
+            {
+              taskName: getGroupTaskName(groupId, index),
+              metadata: { group },
+            },
+          );
+
+          return {
+            status:
+              result.outcome === "created"
+                ? ("scheduled" as const)
+                : ("deduplicated" as const),
+            index,
+            item: { data },
+            result,
+          };
+        } catch (error) {
+          // The task will not run, so it counts as failed for the group
+          await recordResult(group, "failed");
+          return { status: "failed" as const, index, item: { data }, error };
+        }
+      },
+    );
+
+    return { groupId, results };
+  };
+}
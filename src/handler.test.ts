@@ -0,0 +1,188 @@
+import type { Request } from "firebase-functions/tasks";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { createTaskHandlerFactory } from "./handler";
+import { createTaskRegistry } from "./task-registry";
+import type { TaskMiddleware } from "./types";
+
+const schemas = {
+  sendEmail: z.object({ email: z.string() }),
+};
+
+/** Creates a task request like the one passed by onTaskDispatched */
+function createRequest(data: unknown, overrides: Partial<Request> = {}) {
+  return {
+    data,
+    queueName: "sendEmail",
+    id: "task1",
+    retryCount: 0,
+    executionCount: 0,
+    scheduledTime: "1700000000",
+    ...overrides,
+  } satisfies Request;
+}
+
+describe("createTaskHandlerFactory", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("runs global and handler middleware in order around the handler", async () => {
+    const calls: string[] = [];
+
+    const globalMiddleware: TaskMiddleware = async (ctx, next) => {
+      calls.push(`global:before:${ctx.queueName}`);
+      await next();
+      calls.push("global:after");
+    };
+
+    const createHandler = createTaskHandlerFactory(
+      schemas,
+      "us-central1",
+      {},
+      { middleware: [globalMiddleware] },
+    );
+
+    const taskHandler = createHandler({
+      queueName: "sendEmail",
+      middleware: [
+        async (ctx, next) => {
+          calls.push(`handler:before:${ctx.payload.email}`);
+          ctx.state.tenant = "acme";
+          await next();
+        },
+      ],
+      handler: async ({ email }) => {
+        calls.push(`handler:${email}`);
+      },
+    });
+
+    await taskHandler.run(createRequest({ email: "test@example.com" }));
+
+    expect(calls).toEqual([
+      "global:before:sendEmail",
+      "handler:before:test@example.com",
+      "handler:test@example.com",
+      "global:after",
+    ]);
+  });
+
+  it("skips the handler when middleware does not call next", async () => {
+    const handler = vi.fn(() => Promise.resolve());
+
+    const taskHandler = createTaskHandlerFactory(
+      schemas,
+      "us-central1",
+    )({
+      queueName: "sendEmail",
+      middleware: [() => Promise.resolve()],
+      handler,
+    });
+
+    await taskHandler.run(createRequest({ email: "test@example.com" }));
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it("passes dispatch metadata to the middleware", async () => {
+    const middleware = vi.fn<TaskMiddleware<{ email: string }, "sendEmail">>(
+      (_ctx, next) => next(),
+    );
+
+    const taskHandler = createTaskHandlerFactory(
+      schemas,
+      "us-central1",
+    )({
+      queueName: "sendEmail",
+      middleware: [middleware],
+      handler: () => Promise.resolve(),
+    });
+
+    await taskHandler.run(
+      createRequest({ email: "test@example.com" }, { retryCount: 2 }),
+    );
+
+    expect(middleware.mock.calls[0]?.[0].metadata).toMatchObject({
+      taskId: "task1",
+      queueName: "sendEmail",
+      retryCount: 2,
+      scheduledTime: new Date(1_700_000_000_000),
+    });
+  });
+
+  it("passes dispatch metadata to the handler", async () => {
+    const handler = vi.fn(() => Promise.resolve());
+
+    const taskHandler = createTaskHandlerFactory(schemas, "us-central1", {
+      retryConfig: { maxAttempts: 3 },
+    })({
+      queueName: "sendEmail",
+      handler,
+    });
+
+    await taskHandler.run(
+      createRequest({ email: "test@example.com" }, { retryCount: 1 }),
+    );
+    await taskHandler.run(
+      createRequest({ email: "test@example.com" }, { retryCount: 2 }),
+    );
+
+    expect(handler).toHaveBeenNthCalledWith(
+      1,
+      { email: "test@example.com" },
+      expect.objectContaining({
+        taskId: "task1",
+        retryCount: 1,
+        maxAttempts: 3,
+        isLastAttempt: false,
+      }),
+    );
+    expect(handler).toHaveBeenNthCalledWith(
+      2,
+      { email: "test@example.com" },
+      expect.objectContaining({ retryCount: 2, isLastAttempt: true }),
+    );
+  });
+
+  it("deploys the handler in the region of the task definition", () => {
+    const taskRegistry = createTaskRegistry();
+    taskRegistry.set("sendEmail", { region: "europe-west1" });
+
+    const createHandler = createTaskHandlerFactory(
+      schemas,
+      "us-central1",
+      {},
+      { taskRegistry },
+    );
+
+    const taskHandler = createHandler({
+      queueName: "sendEmail",
+      // @ts-expect-error The region can only be set in the task definition
+      options: { region: "us-east1" },
+      handler: () => Promise.resolve(),
+    });
+
+    expect(taskHandler.__endpoint.region).toEqual(["europe-west1"]);
+  });
+
+  it("does not run middleware for invalid payloads", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    const middleware = vi.fn<TaskMiddleware>((_ctx, next) => next());
+
+    const taskHandler = createTaskHandlerFactory(
+      schemas,
+      "us-central1",
+      {},
+      {
+        middleware: [middleware],
+      },
+    )({
+      queueName: "sendEmail",
+      handler: () => Promise.resolve(),
+    });
+
+    await taskHandler.run(createRequest({ email: 42 }));
+
+    expect(middleware).not.toHaveBeenCalled();
+  });
+});
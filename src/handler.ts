@@ -1,17 +1,206 @@
-import { onTaskDispatched } from "firebase-functions/tasks";
+import { onTaskDispatched, type Request } from "firebase-functions/tasks";
 import { got } from "get-or-throw";
 import { z } from "zod";
 import { defaultHandlerOptions } from "./constants";
-import type { SchemaRecord, TaskHandlerOptions } from "./types";
+import {
+  getChainedTaskName,
+  getNextRecurrence,
+  getRetryTaskName,
+  type ScheduleContinuation,
+} from "./continuation";
+import { createDeadLetterEntry } from "./dead-letter";
+import { unwrapPayload, type EnvelopeMetadata } from "./envelope";
+import { PermanentTaskError, RetryableTaskError } from "./errors";
+import { callHook } from "./hooks";
+import { createIdempotencyMiddleware } from "./idempotency";
+import { composeMiddleware } from "./middleware";
+import { decodeTaskPayload } from "./payload-encoding";
+import type { TaskRegistry } from "./task-registry";
+import { startHandlerDeadline } from "./timeout";
+import { getCurrentVersion, parseTaskData } from "./versioning";
+import {
+  continueWorkflow,
+  getWorkflowDefinition,
+  type WorkflowRegistry,
+} from "./workflow";
+import type {
+  BlobStore,
+  DeadLetterEntry,
+  GroupMetadata,
+  GroupTaskStatus,
+  IdempotencyOptions,
+  IdempotencyStore,
+  SchemaRecord,
+  TaskEncryptionOptions,
+  TaskHandlerOptions,
+  TaskHooks,
+  TaskLogger,
+  TaskMetadata,
+  TaskMiddleware,
+  TaskSerializer,
+} from "./types";
+
+/** Settings that apply to all handlers of a typed tasks instance */
+export type HandlerSettings = {
+  /** Logger for handler messages, defaults to the console */
+  logger?: TaskLogger;
+  /** Lifecycle hooks called while handling tasks */
+  hooks?: TaskHooks;
+  /** Middleware that runs for every handler, before its own middleware */
+  middleware?: TaskMiddleware[];
+  /**
+   * Sends a dead-letter entry to the destination configured for its queue.
+   * Resolves with false when the queue has no dead-letter configuration.
+   */
+  sendToDeadLetter?: (entry: DeadLetterEntry) => Promise<boolean>;
+  /**
+   * Schedules the next link of chained tasks and the next run of recurring
+   * tasks
+   */
+  scheduleContinuation?: ScheduleContinuation;
+  /** Registry with the per-queue region overrides of the task definitions */
+  taskRegistry?: TaskRegistry;
+  /** Registry with the workflows, to schedule the next step of a workflow */
+  workflows?: WorkflowRegistry;
+  /**
+   * Records the status of a task in its group, and schedules the completion
+   * task of the group after the last task
+   */
+  recordGroupResult?: (
+    group: GroupMetadata,
+    status: GroupTaskStatus,
+  ) => Promise<void>;
+  /** Store for the idempotency keys of handlers with the idempotency option */
+  idempotencyStore?: IdempotencyStore;
+  /** Store for the payloads that were offloaded when they were scheduled */
+  blobStore?: BlobStore;
+  /** Restores payloads from JSON, defaults to the default serializer */
+  serializer?: TaskSerializer;
+  /** Encryption of all queues, to decrypt their payloads */
+  encryption?: TaskEncryptionOptions;
+};
+
+/**
+ * Parses the ETA of a task, which Cloud Tasks passes as seconds since the
+ * epoch, but the emulator can pass as an RFC 3339 string.
+ */
+function parseScheduledTime(value: string | undefined) {
+  if (!value) {
+    return undefined;
+  }
+
+  const date = /^\d+(\.\d+)?$/.test(value)
+    ? new Date(Number(value) * 1000)
+    : new Date(value);
+
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Returns the maxAttempts of a retry config, if it determines the last attempt
+ * of a task. Without a positive maxAttempts, tasks are retried without limit.
+ * With a maxRetrySeconds, the last attempt depends on the time of the first
+ * attempt, which a dispatch does not include.
+ *
+ * @param retryConfig - The retry config of the handler
+ * @returns The maxAttempts, or undefined if the last attempt is not known
+ */
+export function getLastAttemptLimit({
+  maxAttempts,
+  maxRetrySeconds,
+}: {
+  maxAttempts?: unknown;
+  maxRetrySeconds?: unknown;
+}) {
+  return typeof maxAttempts === "number" &&
+    maxAttempts > 0 &&
+    (maxRetrySeconds ?? 0) === 0
+    ? maxAttempts
+    : undefined;
+}
+
+/**
+ * Extracts the dispatch metadata from a task request
+ *
+ * @param request - The request passed by onTaskDispatched
+ * @param retryConfig - The retry config of the handler
+ * @param envelope - The metadata that was stored with the payload
+ * @param signal - The abort signal of the handler
+ * @returns The dispatch metadata
+ */
+function getTaskMetadata(
+  request: Request,
+  retryConfig: { maxAttempts?: unknown; maxRetrySeconds?: unknown },
+  { workflow, group, groupSummary, previousAttempts = 0 }: EnvelopeMetadata,
+  signal: AbortSignal,
+): TaskMetadata {
+  const retryCount = (request.retryCount ?? 0) + previousAttempts;
+  const { maxAttempts } = retryConfig;
+  const staticMaxAttempts =
+    typeof maxAttempts === "number" && maxAttempts > 0
+      ? maxAttempts
+      : undefined;
+  const lastAttemptLimit = getLastAttemptLimit(retryConfig);
+
+  return {
+    taskId: request.id,
+    queueName: request.queueName,
+    retryCount,
+    executionCount: request.executionCount ?? 0,
+    maxAttempts: staticMaxAttempts,
+    isLastAttempt:
+      lastAttemptLimit !== undefined && retryCount + 1 >= lastAttemptLimit,
+    scheduledTime: parseScheduledTime(request.scheduledTime),
+    previousResponse: request.previousResponse,
+    retryReason: request.retryReason,
+    auth: request.auth,
+    headers: request.headers,
+    workflow,
+    group,
+    groupSummary,
+    signal,
+  };
+}
+
+/**
+ * Merge the default options with the globally configured options and the
+ * options passed directly to the handler
+ *
+ * @param globalOptions - Default options for all handlers
+ * @param options - Options passed to a specific handler
+ * @returns The merged handler options
+ */
+export function mergeHandlerOptions(
+  globalOptions: TaskHandlerOptions,
+  options: TaskHandlerOptions = {},
+) {
+  return {
+    ...defaultHandlerOptions,
+    ...globalOptions,
+    ...options,
+    rateLimits: {
+      ...defaultHandlerOptions.rateLimits,
+      ...globalOptions.rateLimits,
+      ...options.rateLimits,
+    },
+    retryConfig: {
+      ...defaultHandlerOptions.retryConfig,
+      ...globalOptions.retryConfig,
+      ...options.retryConfig,
+    },
+  };
+}
 
 /**
  * Creates a factory function for generating type-safe task handlers
  *
  * @param schemas - Extracted schemas from task definitions
- * @param region - GCP region
+ * @param region - GCP region, unless the task definition sets its own
  * @param globalOptions - Default options for all handlers
- * @param taskRegistry - Registry to store task configurations that need to be
- *   shared with the scheduler
+ * @param settings - Optional logger, hooks, global middleware, dead-letter
+ *   routing, the task registry with region overrides, the workflows, the
+ *   recording of group results, the idempotency store, the blob store, the
+ *   serializer and the encryption
  * @returns A factory function for creating handlers that returns an object with
  *   the queueName as the property name and the handler function as the value
  */
@@ -19,59 +208,486 @@ export function createTaskHandlerFactory<Schemas extends SchemaRecord>(
   schemas: Schemas,
   region: string,
   globalOptions: TaskHandlerOptions = defaultHandlerOptions,
+  {
+    logger = console,
+    hooks = {},
+    middleware: globalMiddleware = [],
+    sendToDeadLetter = () => Promise.resolve(false),
+    scheduleContinuation = () =>
+      Promise.reject(
+        new Error("Chained and recurring tasks require a scheduler"),
+      ),
+    taskRegistry,
+    workflows = new Map(),
+    recordGroupResult = () =>
+      Promise.reject(new Error("Task groups require a group store")),
+    idempotencyStore,
+    blobStore,
+    serializer,
+    encryption,
+  }: HandlerSettings = {},
 ) {
   return <T extends keyof Schemas & string>({
     queueName,
     options = {},
+    middleware = [],
+    idempotency,
+    timeoutMs,
     handler,
   }: {
     queueName: T;
     options?: TaskHandlerOptions;
-    handler: (payload: z.infer<Schemas[T]>) => Promise<void>;
+    middleware?: TaskMiddleware<z.infer<Schemas[T]>, T>[];
+    idempotency?: IdempotencyOptions<z.infer<Schemas[T]>>;
+    /**
+     * Time the handler is allowed to run, in milliseconds. The timeoutSeconds
+     * of the function always applies.
+     */
+    timeoutMs?: number;
+    handler: (
+      payload: z.infer<Schemas[T]>,
+      metadata: TaskMetadata,
+    ) => Promise<unknown>;
   }) => {
+    const mergedOptions = mergeHandlerOptions(globalOptions, options);
+
+    // The timeout can be a parameter expression, which is unknown until runtime
+    const timeoutSeconds =
+      typeof mergedOptions.timeoutSeconds === "number"
+        ? mergedOptions.timeoutSeconds
+        : defaultHandlerOptions.timeoutSeconds;
+
     /**
-     * Merge the default options with the globally configured options and the
-     * options passed directly to the handler
+     * The expiry of the deadline of the dispatch, and the steps that follow the
+     * handler, by context. The steps run inside the middleware, so that the
+     * idempotency key is only completed once they succeeded.
      */
-    const mergedOptions = {
-      ...defaultHandlerOptions,
-      ...globalOptions,
-      ...options,
-      rateLimits: {
-        ...defaultHandlerOptions.rateLimits,
-        ...globalOptions.rateLimits,
-        ...options.rateLimits,
-      },
-      retryConfig: {
-        ...defaultHandlerOptions.retryConfig,
-        ...globalOptions.retryConfig,
-        ...options.retryConfig,
+    const dispatchSteps = new WeakMap<
+      object,
+      {
+        expired: Promise<never>;
+        afterHandler: (output: unknown) => Promise<void>;
+      }
+    >();
+
+    if (timeoutMs !== undefined && !(timeoutMs > 0)) {
+      throw new Error(
+        `The timeoutMs of the handler for queue ${queueName} must be a positive number`,
+      );
+    }
+
+    // Tasks that failed on their last attempt are sent to the dead-letter queue
+    if (
+      taskRegistry?.get(queueName)?.deadLetter &&
+      getLastAttemptLimit(mergedOptions.retryConfig) === undefined
+    ) {
+      throw new Error(
+        `The dead-letter destination of queue ${queueName} requires a retry config with a positive maxAttempts and without maxRetrySeconds, so that the handler knows the last attempt`,
+      );
+    }
+
+    if (idempotency && !idempotencyStore) {
+      throw new Error(
+        `The idempotency option of the handler for queue ${queueName} requires an idempotencyStore in the options of createTypedTasks`,
+      );
+    }
+
+    /**
+     * The idempotency guard runs right before the handler, so it only covers
+     * the side effects of the handler. A claim blocks other deliveries for as
+     * long as the handler can run, unless configured otherwise.
+     */
+    const idempotencyMiddleware =
+      idempotency && idempotencyStore
+        ? [
+            createIdempotencyMiddleware<z.infer<Schemas[T]>, T>(
+              idempotencyStore,
+              {
+                ...idempotency,
+                lockTimeoutSeconds:
+                  idempotency.lockTimeoutSeconds ?? timeoutSeconds,
+              },
+              logger,
+              serializer,
+            ),
+          ]
+        : [];
+
+    /**
+     * The global middleware is widened to any queue, so it accepts the context
+     * of this queue
+     */
+    const runChain = composeMiddleware<z.infer<Schemas[T]>, T>(
+      [...globalMiddleware, ...middleware, ...idempotencyMiddleware],
+      async (ctx) => {
+        /**
+         * The handler can not be stopped, so it keeps running after the
+         * deadline unless it follows the abort signal
+         */
+        const output = handler(ctx.payload, ctx.metadata);
+        const steps = dispatchSteps.get(ctx);
+
+        await steps?.afterHandler(
+          await (steps ? Promise.race([output, steps.expired]) : output),
+        );
       },
+    );
+
+    /**
+     * Handles a task that can never succeed, because its payload is invalid or
+     * the handler threw a PermanentTaskError. The task is acknowledged, so
+     * Cloud Tasks does not retry it, and the payload is kept if a dead-letter
+     * destination is configured. If sending it fails, the error is thrown so
+     * the task is retried and the payload is not lost.
+     */
+    const failPermanently = async (
+      payload: unknown,
+      reason: "validation" | "permanent",
+      error: unknown,
+      metadata: TaskMetadata,
+    ) => {
+      const isDeadLettered = await sendToDeadLetter(
+        createDeadLetterEntry(queueName, payload, reason, error, metadata),
+      );
+
+      if (isDeadLettered) {
+        logger.info(
+          `Sent task ${metadata.taskId} from queue ${queueName} to the dead-letter destination`,
+        );
+      }
+
+      if (metadata.group) {
+        await recordGroupResult(metadata.group, "failed");
+      }
     };
 
     const taskHandler = onTaskDispatched(
       {
         ...mergedOptions,
-        region,
+        // The region comes from the definition, so it matches the scheduler
+        region: taskRegistry?.get(queueName)?.region ?? region,
       },
-      async ({ data }) => {
+      async (request) => {
+        const { data } = request;
+        const startedAt = new Date();
+
+        // The end of a deduplication window or a cancelled run has no payload
+        if (unwrapPayload(data).metadata.windowMarker) {
+          return;
+        }
+
         // Get the schema for this task
         const schema = got(schemas, queueName);
+        const versions = taskRegistry?.get(queueName)?.versions;
+        const currentVersion = getCurrentVersion(versions);
+
+        /**
+         * Fetch, decrypt and decompress the payload, and migrate payloads of
+         * older schema versions before validating them
+         */
+        const {
+          result,
+          payload,
+          version,
+          metadata: envelope,
+        } = parseTaskData(
+          await decodeTaskPayload(data, taskRegistry?.get(queueName), {
+            blobStore,
+            serializer,
+            encryption,
+          }),
+          schema,
+          versions,
+        );
+        const { runAt, recurrence, workflow, group } = envelope;
+
+        const abortController = new AbortController();
+        const metadata = getTaskMetadata(
+          request,
+          mergedOptions.retryConfig,
+          envelope,
+          abortController.signal,
+        );
 
-        const result = schema.safeParse(data);
+        if (Number.isInteger(version) && version > currentVersion) {
+          /**
+           * The task was scheduled by a newer deployment. Throw so that Cloud
+           * Tasks retries it, until the handler with the new schema is
+           * deployed.
+           */
+          throw new Error(
+            `Task ${metadata.taskId} on queue ${queueName} has schema version ${version}, which is newer than the latest version ${currentVersion} known to this handler`,
+          );
+        }
+
+        // Like a newer schema version, an unknown workflow is retried
+        const workflowDefinition =
+          workflow && getWorkflowDefinition(workflows, queueName, workflow);
+
+        // A task that is chained across the schedule limit is not due yet
+        if (runAt && new Date(runAt).getTime() > Date.now()) {
+          await scheduleContinuation(queueName, payload, new Date(runAt), {
+            taskName: getChainedTaskName(metadata.taskId),
+            metadata: recurrence ? { recurrence } : {},
+          });
+          logger.info(
+            `Chained task ${metadata.taskId} on queue ${queueName} until ${runAt}`,
+          );
+          return;
+        }
 
         if (!result.success) {
-          console.error(
+          logger.error(
             new Error(`Zod validation error for queue ${queueName}`),
             result.error.flatten(),
           );
+
+          await callHook(
+            hooks,
+            "onValidationFailed",
+            {
+              queueName,
+              payload,
+              error: result.error,
+              startedAt,
+              durationMs: Date.now() - startedAt.getTime(),
+            },
+            logger,
+          );
+
           // If validation fails, don't retry because it won't succeed
+          await failPermanently(payload, "validation", result.error, metadata);
           return;
         }
 
-        // The result.data is now statically typed by zod as the correct type
-        // since we successfully validated it with the schema
-        return handler(result.data);
+        /**
+         * Schedule the next run of a recurring task before handling this one,
+         * so that a failure does not end the recurrence. The name of the next
+         * run is derived from its time, so a retry does not schedule it twice.
+         */
+        if (recurrence) {
+          const { nextRunAt, continuation } = getNextRecurrence(
+            recurrence,
+            runAt ? new Date(runAt) : (metadata.scheduledTime ?? new Date()),
+          );
+          await scheduleContinuation(
+            queueName,
+            payload,
+            nextRunAt,
+            continuation,
+          );
+        }
+
+        await callHook(
+          hooks,
+          "onHandlerStart",
+          { queueName, payload: result.data, startedAt },
+          logger,
+        );
+
+        // The function timeout counts from the start of the dispatch
+        const deadline = startHandlerDeadline(
+          abortController,
+          queueName,
+          startedAt,
+          { timeoutMs, timeoutSeconds },
+        );
+
+        try {
+          // The result.data is now statically typed by zod as the correct type
+          // since we successfully validated it with the schema
+          const ctx = { queueName, payload: result.data, metadata, state: {} };
+          let isHandled = false;
+
+          dispatchSteps.set(ctx, {
+            expired: deadline.expired,
+            afterHandler: async (output) => {
+              /**
+               * Schedule the next step of a workflow as part of handling the
+               * task, so that it is retried when scheduling fails
+               */
+              if (workflowDefinition && workflow) {
+                const outputSchema = taskRegistry?.get(queueName)?.output;
+                const parsedOutput = outputSchema?.safeParse(output);
+
+                // The handler returns the same output when it is retried
+                if (parsedOutput && !parsedOutput.success) {
+                  throw new PermanentTaskError(
+                    `The output of the handler for queue ${queueName} does not match its output schema`,
+                    { cause: parsedOutput.error },
+                  );
+                }
+
+                await continueWorkflow(
+                  workflowDefinition,
+                  workflow,
+                  result.data,
+                  parsedOutput ? parsedOutput.data : output,
+                  { scheduleContinuation, logger },
+                );
+              }
+
+              if (group) {
+                await recordGroupResult(group, "succeeded");
+              }
+
+              isHandled = true;
+            },
+          });
+          await runChain(ctx);
+
+          // A task that a middleware skipped still finishes its group
+          if (group && !isHandled) {
+            await recordGroupResult(group, "succeeded");
+          }
+        } catch (error) {
+          await callHook(
+            hooks,
+            "onHandlerError",
+            {
+              queueName,
+              payload: result.data,
+              error,
+              startedAt,
+              durationMs: Date.now() - startedAt.getTime(),
+            },
+            logger,
+          );
+
+          if (error instanceof PermanentTaskError) {
+            logger.error(
+              new Error(
+                `Task ${metadata.taskId} from queue ${queueName} failed permanently and will not be retried`,
+              ),
+              error,
+            );
+            await failPermanently(payload, "permanent", error, metadata);
+            return;
+          }
+
+          /**
+           * Cloud Tasks can not delay a single retry, so the task is scheduled
+           * again at the suggested time and this attempt is acknowledged. The
+           * attempts so far are stored with it, to keep counting towards the
+           * maxAttempts of the retry config.
+           */
+          if (
+            error instanceof RetryableTaskError &&
+            error.retryAfterSeconds !== undefined &&
+            !metadata.isLastAttempt
+          ) {
+            try {
+              await scheduleContinuation(
+                queueName,
+                payload,
+                new Date(Date.now() + error.retryAfterSeconds * 1000),
+                {
+                  taskName: getRetryTaskName(
+                    metadata.taskId,
+                    metadata.retryCount,
+                  ),
+                  metadata: {
+                    workflow,
+                    group,
+                    groupSummary: envelope.groupSummary,
+                    previousAttempts: metadata.retryCount + 1,
+                  },
+                },
+              );
+              logger.info(
+                `Retrying task ${metadata.taskId} on queue ${queueName} in ${error.retryAfterSeconds} seconds`,
+              );
+              return;
+            } catch (retryError) {
+              // Fall back to the retry config of the handler
+              logger.error(
+                new Error(
+                  `Failed to delay the retry of task ${metadata.taskId} on queue ${queueName}`,
+                ),
+                retryError,
+              );
+            }
+          }
+
+          if (metadata.isLastAttempt) {
+            let isDeadLettered = false;
+
+            if (group) {
+              try {
+                await recordGroupResult(group, "failed");
+              } catch (groupError) {
+                logger.error(
+                  new Error(
+                    `Failed to record the failure of task ${metadata.taskId} in group ${group.groupId}`,
+                  ),
+                  groupError,
+                );
+              }
+            }
+
+            try {
+              isDeadLettered = await sendToDeadLetter(
+                createDeadLetterEntry(
+                  queueName,
+                  payload,
+                  "exhausted",
+                  error,
+                  metadata,
+                ),
+              );
+            } catch (deadLetterError) {
+              logger.error(
+                new Error(
+                  `Failed to dead-letter task ${metadata.taskId} from queue ${queueName}`,
+                ),
+                deadLetterError,
+              );
+            }
+
+            if (isDeadLettered) {
+              // The task is kept in the dead-letter destination, so there is no
+              // need to report a failure to Cloud Tasks
+              logger.error(
+                new Error(
+                  `Task ${metadata.taskId} from queue ${queueName} failed on its last attempt and was dead-lettered`,
+                ),
+                error,
+              );
+              return;
+            }
+
+            /**
+             * After a delayed retry, Cloud Tasks only counts the attempts of
+             * the task that was scheduled again, so throwing would exceed the
+             * maxAttempts of the retry config
+             */
+            if (envelope.previousAttempts) {
+              logger.error(
+                new Error(
+                  `Task ${metadata.taskId} from queue ${queueName} failed on its last attempt`,
+                ),
+                error,
+              );
+              return;
+            }
+          }
+
+          throw error;
+        } finally {
+          deadline.clear();
+        }
+
+        await callHook(
+          hooks,
+          "onHandlerSuccess",
+          {
+            queueName,
+            payload: result.data,
+            startedAt,
+            durationMs: Date.now() - startedAt.getTime(),
+          },
+          logger,
+        );
       },
     );
 
@@ -0,0 +1,88 @@
+import type { TaskDefinitionRecord, TaskHooks, TaskLogger } from "./types";
+
+/**
+ * Calls a lifecycle hook if it is configured. Errors thrown by the hook are
+ * logged, and do not affect the scheduling or handling of the task.
+ *
+ * @param hooks - The configured hooks
+ * @param name - Name of the hook to call
+ * @param event - The event passed to the hook
+ * @param logger - Logger for reporting hook failures
+ */
+export async function callHook<K extends keyof TaskHooks>(
+  hooks: TaskHooks,
+  name: K,
+  event: Parameters<NonNullable<TaskHooks[K]>>[0],
+  logger: TaskLogger,
+) {
+  const hook = hooks[name] as
+    | ((event: Parameters<NonNullable<TaskHooks[K]>>[0]) => unknown)
+    | undefined;
+
+  if (!hook) {
+    return;
+  }
+
+  try {
+    await hook(event);
+  } catch (error) {
+    logger.warn(`Hook ${name} failed`, error);
+  }
+}
+
+/**
+ * Widens the hooks of createTypedTasks, which are typed per queue, to the hooks
+ * that the schedulers and handlers call for any queue. Each event carries the
+ * queue name and the payload of a queue from the definitions.
+ *
+ * @param hooks - The hooks, typed by the task definitions
+ * @returns The hooks, typed for any queue
+ */
+export function widenHooks<Defs extends TaskDefinitionRecord<string>>(
+  hooks: TaskHooks<Defs>,
+): TaskHooks {
+  const {
+    onSchedule,
+    onDeduplicated,
+    onScheduleRetry,
+    onScheduleFailed,
+    onHandlerStart,
+    onHandlerSuccess,
+    onHandlerError,
+    onValidationFailed,
+  } = hooks;
+
+  return {
+    onSchedule:
+      onSchedule &&
+      ((event) => onSchedule(event as Parameters<typeof onSchedule>[0])),
+    onDeduplicated:
+      onDeduplicated &&
+      ((event) =>
+        onDeduplicated(event as Parameters<typeof onDeduplicated>[0])),
+    onScheduleRetry:
+      onScheduleRetry &&
+      ((event) =>
+        onScheduleRetry(event as Parameters<typeof onScheduleRetry>[0])),
+    onScheduleFailed:
+      onScheduleFailed &&
+      ((event) =>
+        onScheduleFailed(event as Parameters<typeof onScheduleFailed>[0])),
+    onHandlerStart:
+      onHandlerStart &&
+      ((event) =>
+        onHandlerStart(event as Parameters<typeof onHandlerStart>[0])),
+    onHandlerSuccess:
+      onHandlerSuccess &&
+      ((event) =>
+        onHandlerSuccess(event as Parameters<typeof onHandlerSuccess>[0])),
+    onHandlerError:
+      onHandlerError &&
+      ((event) =>
+        onHandlerError(event as Parameters<typeof onHandlerError>[0])),
+    onValidationFailed:
+      onValidationFailed &&
+      ((event) =>
+        onValidationFailed(event as Parameters<typeof onValidationFailed>[0])),
+  };
+}
@@ -0,0 +1,172 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { createMemoryGroupStore } from "./group";
+import { createMemoryIdempotencyStore } from "./idempotency";
+import { createTestTasks } from "./test-utils/test-tasks";
+import type { GroupStore } from "./types";
+
+function setup({
+  withIdempotencyStore = true,
+  groupStore,
+}: { withIdempotencyStore?: boolean; groupStore?: GroupStore } = {}) {
+  const idempotencyStore = createMemoryIdempotencyStore();
+  const testTasks = createTestTasks(
+    { chargeOrder: z.object({ orderId: z.string(), amount: z.number() }) },
+    {
+      idempotencyStore: withIdempotencyStore ? idempotencyStore : undefined,
+      groupStore,
+    },
+  );
+
+  return { ...testTasks, idempotencyStore };
+}
+
+describe("idempotency", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ now: new Date("2024-01-01T00:00:00Z") });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("skips deliveries with a key that was completed until the TTL expires", async () => {
+    const { client, tasks } = setup();
+    const handler = vi.fn(() => Promise.resolve());
+    tasks.createHandler({
+      queueName: "chargeOrder",
+      idempotency: { key: ({ orderId }) => orderId, ttlSeconds: 3600 },
+      handler,
+    });
+
+    const scheduleCharge = tasks.createScheduler("chargeOrder");
+    await scheduleCharge({ orderId: "order1", amount: 10 });
+    await scheduleCharge({ orderId: "order1", amount: 10 });
+    await client.runDueTasks();
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(client.getDispatches().map(({ status }) => status)).toEqual([
+      "success",
+      "success",
+    ]);
+
+    vi.advanceTimersByTime(3600_000);
+    await scheduleCharge({ orderId: "order1", amount: 10 });
+    await client.runDueTasks();
+
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it("releases the key when the handler fails, so a retry runs it", async () => {
+    const { client, tasks } = setup();
+    const handler = vi
+      .fn<() => Promise<void>>()
+      .mockRejectedValueOnce(new Error("Payment provider down"))
+      .mockResolvedValue();
+    tasks.createHandler({
+      queueName: "chargeOrder",
+      idempotency: { key: "payload" },
+      handler,
+    });
+
+    await tasks.createScheduler("chargeOrder")({
+      orderId: "order1",
+      amount: 10,
+    });
+    await client.runDueTasks();
+    vi.advanceTimersByTime(60_000);
+    await client.runDueTasks();
+
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(client.getDispatches().map(({ status }) => status)).toEqual([
+      "retry",
+      "success",
+    ]);
+  });
+
+  it("completes the key only after the task is recorded in its group", async () => {
+    const groupStore = createMemoryGroupStore();
+    vi.spyOn(groupStore, "recordResult").mockRejectedValueOnce(
+      new Error("Group store unavailable"),
+    );
+    const { client, tasks } = setup({ groupStore });
+    const handler = vi.fn((_payload: { orderId: string }) => Promise.resolve());
+    tasks.createHandler({
+      queueName: "chargeOrder",
+      idempotency: { key: "taskName" },
+      handler,
+    });
+
+    await tasks.scheduleGroup(
+      "chargeOrder",
+      [{ orderId: "order1", amount: 10 }],
+      {
+        groupId: "checkout-1",
+        onComplete: {
+          queueName: "chargeOrder",
+          payload: { orderId: "receipt", amount: 0 },
+        },
+      },
+    );
+    await client.runDueTasks();
+    vi.advanceTimersByTime(60_000);
+    await client.runDueTasks();
+
+    // The retry is not skipped, so the group completes
+    expect(handler.mock.calls.map(([{ orderId }]) => orderId)).toEqual([
+      "order1",
+      "order1",
+      "receipt",
+    ]);
+    expect(client.getDispatches().map(({ status }) => status)).toEqual([
+      "retry",
+      "success",
+      "success",
+    ]);
+  });
+
+  it("retries deliveries while another delivery holds the lock", async () => {
+    const { client, tasks, idempotencyStore } = setup();
+    const handler = vi.fn(() => Promise.resolve());
+    tasks.createHandler({
+      queueName: "chargeOrder",
+      idempotency: { key: ({ orderId }) => orderId, lockTimeoutSeconds: 120 },
+      handler,
+    });
+
+    // A delivery on another instance claimed the key and crashed
+    await idempotencyStore.claim("chargeOrder/order1", {
+      lockTimeoutSeconds: 120,
+    });
+    await tasks.createScheduler("chargeOrder")({
+      orderId: "order1",
+      amount: 10,
+    });
+    await client.runDueTasks();
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(client.getDispatches()).toMatchObject([
+      {
+        status: "retry",
+        error: { message: expect.stringContaining("already being handled") },
+      },
+    ]);
+
+    vi.advanceTimersByTime(120_000);
+    await client.runDueTasks();
+
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it("requires an idempotency store", () => {
+    const { tasks } = setup({ withIdempotencyStore: false });
+
+    expect(() =>
+      tasks.createHandler({
+        queueName: "chargeOrder",
+        idempotency: {},
+        handler: () => Promise.resolve(),
+      }),
+    ).toThrow("requires an idempotencyStore");
+  });
+});
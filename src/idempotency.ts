@@ -0,0 +1,152 @@
+import crypto from "node:crypto";
+import { defaultIdempotencyTtlSeconds } from "./constants";
+import { canonicalStringify } from "./deduplication";
+import { TaskTimeoutError } from "./errors";
+import type {
+  IdempotencyOptions,
+  IdempotencyStore,
+  TaskLogger,
+  TaskMetadata,
+  TaskMiddleware,
+  TaskSerializer,
+} from "./types";
+
+/**
+ * Creates an idempotency store that keeps the keys in a Map. A lock or a
+ * completed key expires at the clock of the store, so tests with fake timers
+ * can let a lock time out. See the testing docs for using it with the local
+ * tasks client.
+ *
+ * @param options - Optional configuration
+ * @param options.now - Clock used for expiring keys, defaults to Date.now
+ * @returns An idempotency store backed by a Map
+ */
+export function createMemoryIdempotencyStore({
+  now = () => Date.now(),
+}: { now?: () => number } = {}): IdempotencyStore {
+  const keys = new Map<
+    string,
+    { status: "locked" | "completed"; expiresAt: number }
+  >();
+
+  return {
+    claim: (key, { lockTimeoutSeconds }) => {
+      const record = keys.get(key);
+
+      if (record && record.expiresAt > now()) {
+        return Promise.resolve(record.status);
+      }
+
+      keys.set(key, {
+        status: "locked",
+        expiresAt: now() + lockTimeoutSeconds * 1000,
+      });
+
+      return Promise.resolve("claimed");
+    },
+    complete: (key, { ttlSeconds }) => {
+      keys.set(key, {
+        status: "completed",
+        expiresAt: now() + ttlSeconds * 1000,
+      });
+
+      return Promise.resolve();
+    },
+    release: (key) => {
+      keys.delete(key);
+      return Promise.resolve();
+    },
+  };
+}
+
+/** Returns the idempotency key of a delivery, scoped to its queue */
+function getIdempotencyKey<Payload>(
+  key: NonNullable<IdempotencyOptions<Payload>["key"]>,
+  queueName: string,
+  payload: Payload,
+  metadata: TaskMetadata,
+  serializer?: TaskSerializer,
+) {
+  switch (key) {
+    case "taskName":
+      return `${queueName}/${metadata.taskId}`;
+    case "payload":
+      return `${queueName}/${crypto
+        .createHash("sha256")
+        .update(canonicalStringify(payload, serializer))
+        .digest("hex")}`;
+    default:
+      return `${queueName}/${key(payload, metadata)}`;
+  }
+}
+
+/**
+ * Creates the middleware that guards a handler against duplicate deliveries. It
+ * runs right before the handler, and claims the idempotency key of the
+ * delivery. Deliveries of a completed key are skipped, and deliveries of a key
+ * that is locked by another delivery throw, so Cloud Tasks retries them. The
+ * claim is released when the handler fails, unless it timed out.
+ *
+ * @param store - The store with the idempotency keys
+ * @param options - The key, TTL and lock timeout
+ * @param logger - Logger for skipped deliveries
+ * @param serializer - Converts the payload to JSON for the "payload" key
+ * @returns The idempotency middleware
+ */
+export function createIdempotencyMiddleware<Payload, QueueName extends string>(
+  store: IdempotencyStore,
+  {
+    key = "taskName",
+    ttlSeconds = defaultIdempotencyTtlSeconds,
+    lockTimeoutSeconds,
+  }: IdempotencyOptions<Payload> & { lockTimeoutSeconds: number },
+  logger: TaskLogger,
+  serializer?: TaskSerializer,
+): TaskMiddleware<Payload, QueueName> {
+  return async ({ queueName, payload, metadata }, next) => {
+    const idempotencyKey = getIdempotencyKey(
+      key,
+      queueName,
+      payload,
+      metadata,
+      serializer,
+    );
+    const claim = await store.claim(idempotencyKey, { lockTimeoutSeconds });
+
+    if (claim === "completed") {
+      logger.info(
+        `Skipped task ${metadata.taskId} on queue ${queueName}, because it was already handled`,
+      );
+      return;
+    }
+
+    if (claim === "locked") {
+      throw new Error(
+        `Task ${metadata.taskId} on queue ${queueName} is already being handled by another delivery`,
+      );
+    }
+
+    try {
+      await next();
+    } catch (error) {
+      /**
+       * A handler that timed out can still be running, so the key stays locked
+       * until the lock expires
+       */
+      if (error instanceof TaskTimeoutError) {
+        throw error;
+      }
+
+      // The lock expires anyway, so a failed release only delays the retry
+      await store.release(idempotencyKey).catch((releaseError: unknown) => {
+        logger.error(
+          new Error(`Failed to release idempotency key ${idempotencyKey}`),
+          releaseError,
+        );
+      });
+      throw error;
+    }
+
+    await store.complete(idempotencyKey, { ttlSeconds });
+  };
+}
@@ -1,2 +1,19 @@
+export { deadLetterEntrySchema } from "./dead-letter";
+export { defineTask } from "./define-task";
+export { createStaticKeyProvider } from "./encryption";
+export {
+  PermanentTaskError,
+  RetryableTaskError,
+  TaskScheduleError,
+  TaskTimeoutError,
+  TaskValidationError,
+} from "./errors";
 export { createTypedTasks } from "./factory";
+export { createMemoryGroupStore } from "./group";
+export { createMemoryIdempotencyStore } from "./idempotency";
+export { createLocalTasksClient } from "./local-tasks-client";
+export type { LocalTaskDispatch, LocalTasksClient } from "./local-tasks-client";
+export { createFileBlobStore, createMemoryBlobStore } from "./payload-encoding";
+export { defaultSerializer } from "./serializer";
+export { defineSchemaVersion } from "./versioning";
 export * from "./types";
@@ -0,0 +1,212 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { createLocalTasksClient } from "./local-tasks-client";
+import { createTestTasks } from "./test-utils/test-tasks";
+
+const definitions = {
+  sendEmail: z.object({ email: z.string() }),
+  syncUser: {
+    schema: z.object({ userId: z.string() }),
+    options: { deduplicationWindowSeconds: 60 },
+  },
+};
+
+function setup() {
+  return createTestTasks(definitions, {
+    options: {
+      retryConfig: { maxAttempts: 3, minBackoffSeconds: 10 },
+    },
+  });
+}
+
+describe("createLocalTasksClient", () => {
+  const now = 1_700_000_000_000;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(now);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("dispatches scheduled tasks to the registered handler", async () => {
+    const { client, tasks } = setup();
+    const handler = vi.fn(() => Promise.resolve());
+
+    tasks.createHandler({ queueName: "sendEmail", handler });
+    await tasks.createScheduler("sendEmail")({ email: "test@example.com" });
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(await client.runDueTasks()).toBe(1);
+    expect(handler).toHaveBeenCalledWith(
+      { email: "test@example.com" },
+      expect.objectContaining({ queueName: "sendEmail", retryCount: 0 }),
+    );
+    expect(client.getPendingTasks()).toHaveLength(0);
+  });
+
+  it("respects the schedule time of delayed tasks", async () => {
+    const { client, tasks } = setup();
+    const handler = vi.fn(() => Promise.resolve());
+
+    tasks.createHandler({ queueName: "sendEmail", handler });
+    await tasks.createScheduler("sendEmail")(
+      { email: "test@example.com" },
+      { delaySeconds: 30 },
+    );
+
+    await client.runDueTasks();
+    expect(handler).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(30_000);
+    await client.runDueTasks();
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it("deduplicates tasks within the deduplication window", async () => {
+    const { client, tasks } = setup();
+    const handler = vi.fn(() => Promise.resolve());
+    const scheduleSync = tasks.createScheduler("syncUser");
+
+    tasks.createHandler({ queueName: "syncUser", handler });
+    const first = await scheduleSync({ userId: "user1" });
+    const second = await scheduleSync({ userId: "user1" });
+    await scheduleSync({ userId: "user2" });
+
+    expect(first.outcome).toBe("created");
+    expect(second).toMatchObject({
+      outcome: "deduplicated",
+      taskName: first.taskName,
+      scheduleTime: new Date(now + 60_000),
+    });
+
+    expect(client.getPendingTasks("syncUser")).toHaveLength(2);
+
+    vi.advanceTimersByTime(60_000);
+    await client.runDueTasks();
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it("rejects task names that were already used", async () => {
+    const client = createLocalTasksClient();
+    const parent = client.queuePath("demo-project", "us-central1", "sendEmail");
+    const name = client.taskPath(
+      "demo-project",
+      "us-central1",
+      "sendEmail",
+      "task1",
+    );
+
+    await client.createTask({ parent, task: { name } });
+    await expect(client.createTask({ parent, task: { name } })).rejects.toThrow(
+      "ALREADY_EXISTS",
+    );
+  });
+
+  it("retries failing tasks using the handler retry config", async () => {
+    const { client, tasks } = setup();
+    const handler = vi
+      .fn<(payload: { email: string }) => Promise<void>>()
+      .mockRejectedValue(new Error("Temporary failure"));
+
+    tasks.createHandler({ queueName: "sendEmail", handler });
+    await tasks.createScheduler("sendEmail")({ email: "test@example.com" });
+
+    await client.runDueTasks();
+    expect(handler).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(10_000);
+    await client.runDueTasks();
+    expect(handler).toHaveBeenCalledTimes(2);
+
+    // The backoff doubles after each attempt
+    vi.advanceTimersByTime(10_000);
+    await client.runDueTasks();
+    expect(handler).toHaveBeenCalledTimes(2);
+
+    vi.advanceTimersByTime(10_000);
+    await client.runDueTasks();
+    expect(handler).toHaveBeenCalledTimes(3);
+
+    expect(client.getDispatches().map(({ status }) => status)).toEqual([
+      "retry",
+      "retry",
+      "failed",
+    ]);
+    expect(client.getPendingTasks()).toHaveLength(0);
+  });
+
+  it("calls the lifecycle hooks and logger", async () => {
+    const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const events: string[] = [];
+
+    const { client, tasks } = createTestTasks(definitions, {
+      logger,
+      hooks: {
+        onSchedule: ({ queueName }) => {
+          events.push(`schedule:${queueName}`);
+        },
+        onDeduplicated: ({ queueName }) => {
+          events.push(`deduplicated:${queueName}`);
+        },
+        onHandlerStart: (event) => {
+          if (event.queueName === "syncUser") {
+            events.push(`start:${event.payload.userId}`);
+          }
+        },
+        onHandlerSuccess: ({ queueName }) => {
+          events.push(`success:${queueName}`);
+        },
+        onValidationFailed: ({ queueName }) => {
+          events.push(`invalid:${queueName}`);
+        },
+      },
+    });
+
+    tasks.createHandler({
+      queueName: "syncUser",
+      handler: () => Promise.resolve(),
+    });
+    tasks.createHandler({
+      queueName: "sendEmail",
+      handler: () => Promise.resolve(),
+    });
+
+    await tasks.createScheduler("syncUser")({ userId: "user1" });
+    await tasks.createScheduler("syncUser")({ userId: "user1" });
+    await tasks.createScheduler("sendEmail")({
+      email: 42,
+    } as unknown as { email: string });
+
+    vi.advanceTimersByTime(60_000);
+    await client.runDueTasks();
+
+    expect(events).toEqual([
+      "schedule:syncUser",
+      "deduplicated:syncUser",
+      "schedule:sendEmail",
+      "invalid:sendEmail",
+      "start:user1",
+      "success:syncUser",
+    ]);
+    expect(logger.info).toHaveBeenCalledTimes(1);
+    expect(logger.error).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not call the handler for invalid payloads", async () => {
+    const { client, tasks } = setup();
+    const handler = vi.fn(() => Promise.resolve());
+
+    tasks.createHandler({ queueName: "sendEmail", handler });
+    await tasks.createScheduler("sendEmail")({
+      email: 42,
+    } as unknown as { email: string });
+
+    await client.runDueTasks();
+    expect(handler).not.toHaveBeenCalled();
+    expect(client.getDispatches()).toMatchObject([{ status: "success" }]);
+  });
+});
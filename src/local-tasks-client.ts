@@ -0,0 +1,530 @@
+import type { protos } from "@google-cloud/tasks";
+import type { RetryConfig } from "firebase-functions/v2/tasks";
+import { defaultHandlerOptions } from "./constants";
+import { decodeTaskData } from "./task-body";
+import type { TaskHandlerFunction } from "./types";
+
+type Task = protos.google.cloud.tasks.v2.ITask;
+type Queue = protos.google.cloud.tasks.v2.IQueue;
+
+/** Marks a client as a local tasks client, see isLocalTasksClient */
+const localTasksClientMarker = Symbol("typed-tasks.localTasksClient");
+
+/** A task stored in the local queue, waiting to be dispatched */
+type LocalTask = {
+  /** Full resource name of the task */
+  name: string;
+  /** Full resource name of the queue */
+  parent: string;
+  queueName: string;
+  task: Task;
+  scheduleTimeMs: number;
+  firstAttemptTimeMs?: number;
+  retryCount: number;
+  executionCount: number;
+};
+
+/** Record of a single dispatch attempt made by the local tasks client */
+export type LocalTaskDispatch = {
+  queueName: string;
+  /** Short name of the task, as passed to the handler as `id` */
+  taskId: string;
+  /** The payload found in the "data" key of the task body */
+  data: unknown;
+  retryCount: number;
+  /**
+   * - Success: the handler completed
+   * - Retry: the handler threw and the task was rescheduled
+   * - Failed: the handler threw and the retry config was exhausted
+   */
+  status: "success" | "retry" | "failed";
+  error?: unknown;
+};
+
+type RegisteredHandler = {
+  handler: TaskHandlerFunction;
+  retryConfig: RetryConfig;
+};
+
+/** Cloud Tasks status codes used by the local tasks client */
+const statusCodes = {
+  NOT_FOUND: 5,
+  ALREADY_EXISTS: 6,
+} as const;
+
+/**
+ * Creates an error that mimics the errors thrown by the Google Cloud client
+ * libraries, so that code checking for the status in the message or code
+ * handles both the same way.
+ */
+function createStatusError(status: keyof typeof statusCodes, details: string) {
+  const code = statusCodes[status];
+  return Object.assign(new Error(`${code} ${status}: ${details}`), { code });
+}
+
+/** Returns the value if it is a number, to skip param expressions */
+function numberOr(value: unknown, fallback: number) {
+  return typeof value === "number" ? value : fallback;
+}
+
+/** Converts a snake_case field mask segment to the camelCase property name */
+function toCamelCase(value: string) {
+  return value.replace(/_([a-z])/g, (_match, char: string) =>
+    char.toUpperCase(),
+  );
+}
+
+/** Parses the queue name from a full queue or task resource name */
+function getQueueName(resourceName: string) {
+  const match = /\/queues\/([^/]+)/.exec(resourceName);
+
+  if (!match?.[1]) {
+    throw new Error(`Invalid queue resource name: ${resourceName}`);
+  }
+
+  return match[1];
+}
+
+/**
+ * Calculates the delay before the next attempt, following the exponential
+ * backoff rules of Cloud Tasks.
+ */
+function getBackoffMs(retryConfig: RetryConfig, retryCount: number) {
+  const minBackoffSeconds = numberOr(
+    retryConfig.minBackoffSeconds,
+    defaultHandlerOptions.retryConfig.minBackoffSeconds,
+  );
+  const maxBackoffSeconds = numberOr(
+    retryConfig.maxBackoffSeconds,
+    defaultHandlerOptions.retryConfig.maxBackoffSeconds,
+  );
+  const maxDoublings = numberOr(retryConfig.maxDoublings, 16);
+
+  const backoffSeconds = Math.min(
+    minBackoffSeconds * 2 ** Math.min(retryCount, maxDoublings),
+    maxBackoffSeconds,
+  );
+
+  return backoffSeconds * 1000;
+}
+
+/**
+ * Creates an in-memory replacement for the Google Cloud Tasks client, meant for
+ * testing scheduler-to-handler flows without a connection to GCP.
+ *
+ * Tasks are stored per queue and dispatched to the handlers created with
+ * `createHandler` when `runDueTasks` is called. Dispatching respects the task
+ * schedule time, so tests can control execution by advancing the (fake) clock.
+ * Failed tasks are retried according to the retry config of the handler.
+ *
+ * Like Cloud Tasks, a task name can not be reused once it has been taken, and
+ * creating a task with an existing name fails with ALREADY_EXISTS.
+ *
+ * @param options - Optional configuration
+ * @param options.now - Clock used for scheduling, defaults to Date.now
+ * @returns A local tasks client that can be passed to createTypedTasks
+ */
+export function createLocalTasksClient({
+  now = () => Date.now(),
+}: { now?: () => number } = {}) {
+  const tasks = new Map<string, LocalTask>();
+  const usedTaskNames = new Set<string>();
+  const handlers = new Map<string, RegisteredHandler>();
+  const queues = new Map<string, Queue>();
+  const dispatches: LocalTaskDispatch[] = [];
+  let taskCounter = 0;
+
+  function locationPath(project: string, location: string) {
+    return `projects/${project}/locations/${location}`;
+  }
+
+  function queuePath(project: string, location: string, queue: string) {
+    return `${locationPath(project, location)}/queues/${queue}`;
+  }
+
+  function taskPath(
+    project: string,
+    location: string,
+    queue: string,
+    task: string,
+  ) {
+    return `${queuePath(project, location, queue)}/tasks/${task}`;
+  }
+
+  function createTask(
+    request: protos.google.cloud.tasks.v2.ICreateTaskRequest,
+  ): Promise<[Task]> {
+    const parent = request.parent ?? "";
+    const queueName = getQueueName(parent);
+    const name = request.task?.name ?? `${parent}/tasks/${++taskCounter}`;
+
+    if (usedTaskNames.has(name)) {
+      return Promise.reject(
+        createStatusError(
+          "ALREADY_EXISTS",
+          `The task ${name} already exists or did recently`,
+        ),
+      );
+    }
+
+    const currentTimeMs = now();
+    const scheduleSeconds = request.task?.scheduleTime?.seconds;
+    const scheduleTimeMs =
+      scheduleSeconds === undefined || scheduleSeconds === null
+        ? currentTimeMs
+        : Number(scheduleSeconds) * 1000;
+
+    const task: Task = {
+      ...request.task,
+      name,
+      scheduleTime: { seconds: Math.floor(scheduleTimeMs / 1000) },
+      createTime: { seconds: Math.floor(currentTimeMs / 1000) },
+      dispatchCount: 0,
+      responseCount: 0,
+    };
+
+    usedTaskNames.add(name);
+    tasks.set(name, {
+      name,
+      parent,
+      queueName,
+      task,
+      scheduleTimeMs,
+      retryCount: 0,
+      executionCount: 0,
+    });
+
+    return Promise.resolve([task]);
+  }
+
+  /** Returns the task of a local task, with its current schedule time */
+  function toTask(localTask: LocalTask): Task {
+    return {
+      ...localTask.task,
+      scheduleTime: { seconds: Math.floor(localTask.scheduleTimeMs / 1000) },
+      dispatchCount: localTask.retryCount,
+      responseCount: localTask.executionCount,
+    };
+  }
+
+  function getTask(
+    request: protos.google.cloud.tasks.v2.IGetTaskRequest,
+  ): Promise<[Task]> {
+    const localTask = tasks.get(request.name ?? "");
+
+    if (!localTask) {
+      return Promise.reject(
+        createStatusError("NOT_FOUND", `Task ${request.name} not found`),
+      );
+    }
+
+    return Promise.resolve([toTask(localTask)]);
+  }
+
+  /** Deletes a pending task. Its name can not be reused, like in Cloud Tasks. */
+  function deleteTask(
+    request: protos.google.cloud.tasks.v2.IDeleteTaskRequest,
+  ): Promise<[object]> {
+    if (!tasks.delete(request.name ?? "")) {
+      return Promise.reject(
+        createStatusError("NOT_FOUND", `Task ${request.name} not found`),
+      );
+    }
+
+    return Promise.resolve([{}]);
+  }
+
+  function getQueue(
+    request: protos.google.cloud.tasks.v2.IGetQueueRequest,
+  ): Promise<[Queue]> {
+    const queue = queues.get(request.name ?? "");
+
+    return queue
+      ? Promise.resolve([structuredClone(queue)])
+      : Promise.reject(
+          createStatusError("NOT_FOUND", `Queue ${request.name} not found`),
+        );
+  }
+
+  function createQueue(
+    request: protos.google.cloud.tasks.v2.ICreateQueueRequest,
+  ): Promise<[Queue]> {
+    const name = request.queue?.name ?? "";
+
+    if (queues.has(name)) {
+      return Promise.reject(
+        createStatusError("ALREADY_EXISTS", `Queue ${name} already exists`),
+      );
+    }
+
+    const queue: Queue = {
+      ...structuredClone(request.queue),
+      state: "RUNNING",
+    };
+    queues.set(name, queue);
+
+    return Promise.resolve([structuredClone(queue)]);
+  }
+
+  /**
+   * Updates the fields in the update mask, or replaces the queue if no mask is
+   * given. Like Cloud Tasks, the queue is created if it does not exist.
+   */
+  function updateQueue(
+    request: protos.google.cloud.tasks.v2.IUpdateQueueRequest,
+  ): Promise<[Queue]> {
+    const update = structuredClone(request.queue ?? {});
+    const name = update.name ?? "";
+    const paths = request.updateMask?.paths;
+    const queue: Queue = paths
+      ? structuredClone(queues.get(name) ?? { name, state: "RUNNING" })
+      : { ...update, state: "RUNNING" };
+    const fields = queue as Record<string, unknown>;
+
+    for (const path of paths ?? []) {
+      const [group = "", key] = path.split(".").map(toCamelCase);
+      const source = (update as Record<string, unknown>)[group];
+
+      fields[group] =
+        key === undefined
+          ? source
+          : {
+              ...(fields[group] as object | undefined),
+              [key]: (source as Record<string, unknown> | undefined)?.[key],
+            };
+    }
+
+    queues.set(name, queue);
+
+    return Promise.resolve([structuredClone(queue)]);
+  }
+
+  /**
+   * Sets the state of a queue. Unlike Cloud Tasks, queues that were not created
+   * are created implicitly, because the local client does not require queues to
+   * exist.
+   */
+  function setQueueState(name: string, state: "RUNNING" | "PAUSED") {
+    const queue: Queue = { ...queues.get(name), name, state };
+    queues.set(name, queue);
+
+    return Promise.resolve<[Queue]>([structuredClone(queue)]);
+  }
+
+  function pauseQueue(
+    request: protos.google.cloud.tasks.v2.IPauseQueueRequest,
+  ) {
+    return setQueueState(request.name ?? "", "PAUSED");
+  }
+
+  function resumeQueue(
+    request: protos.google.cloud.tasks.v2.IResumeQueueRequest,
+  ) {
+    return setQueueState(request.name ?? "", "RUNNING");
+  }
+
+  /** Deletes all pending tasks of a queue */
+  function purgeQueue(
+    request: protos.google.cloud.tasks.v2.IPurgeQueueRequest,
+  ): Promise<[Queue]> {
+    const name = request.name ?? "";
+
+    for (const localTask of tasks.values()) {
+      if (localTask.parent === name) {
+        tasks.delete(localTask.name);
+      }
+    }
+
+    return Promise.resolve([structuredClone(queues.get(name) ?? { name })]);
+  }
+
+  /** Yields the pending tasks of a queue, in order of their schedule time */
+  async function* listTasksAsync(
+    request: protos.google.cloud.tasks.v2.IListTasksRequest,
+  ): AsyncIterable<Task> {
+    const queueTasks = [...tasks.values()]
+      .filter((localTask) => localTask.parent === request.parent)
+      .sort((a, b) => a.scheduleTimeMs - b.scheduleTimeMs);
+
+    for (const localTask of queueTasks) {
+      yield toTask(localTask);
+    }
+  }
+
+  /**
+   * Registers the handler that receives the tasks of a queue. This is called by
+   * createTypedTasks for every handler created with createHandler.
+   */
+  function registerHandler(
+    queueName: string,
+    handler: TaskHandlerFunction,
+    retryConfig: RetryConfig = {},
+  ) {
+    handlers.set(queueName, { handler, retryConfig });
+  }
+
+  async function dispatch(localTask: LocalTask, registered: RegisteredHandler) {
+    const { retryConfig, handler } = registered;
+    const dispatchTimeMs = now();
+    const taskId = localTask.name.split("/").pop() ?? localTask.name;
+    const data = decodeTaskData(localTask.task);
+
+    localTask.firstAttemptTimeMs ??= dispatchTimeMs;
+
+    const record = {
+      queueName: localTask.queueName,
+      taskId,
+      data,
+      retryCount: localTask.retryCount,
+    };
+
+    try {
+      await handler.run({
+        data,
+        queueName: localTask.queueName,
+        id: taskId,
+        retryCount: localTask.retryCount,
+        executionCount: localTask.executionCount,
+        scheduledTime: new Date(localTask.scheduleTimeMs).toISOString(),
+        headers: { ...localTask.task.httpRequest?.headers },
+      });
+
+      tasks.delete(localTask.name);
+      dispatches.push({ ...record, status: "success" });
+    } catch (error) {
+      localTask.retryCount += 1;
+      localTask.executionCount += 1;
+
+      const maxAttempts = numberOr(
+        retryConfig.maxAttempts,
+        defaultHandlerOptions.retryConfig.maxAttempts,
+      );
+      const maxRetrySeconds = numberOr(
+        retryConfig.maxRetrySeconds,
+        defaultHandlerOptions.retryConfig.maxRetrySeconds,
+      );
+
+      const isAttemptsExhausted =
+        maxAttempts >= 0 && localTask.retryCount >= maxAttempts;
+      const isTimeExhausted =
+        maxRetrySeconds > 0 &&
+        dispatchTimeMs - localTask.firstAttemptTimeMs >= maxRetrySeconds * 1000;
+
+      if (isAttemptsExhausted || isTimeExhausted) {
+        tasks.delete(localTask.name);
+        dispatches.push({ ...record, status: "failed", error });
+        return;
+      }
+
+      localTask.scheduleTimeMs =
+        dispatchTimeMs + getBackoffMs(retryConfig, localTask.retryCount - 1);
+      dispatches.push({ ...record, status: "retry", error });
+    }
+  }
+
+  /**
+   * Returns the next task that is due, has a registered handler and is not in a
+   * paused queue
+   */
+  function getNextDueTask() {
+    const currentTimeMs = now();
+    let next: [LocalTask, RegisteredHandler] | undefined;
+
+    for (const localTask of tasks.values()) {
+      const registered = handlers.get(localTask.queueName);
+
+      if (
+        registered &&
+        queues.get(localTask.parent)?.state !== "PAUSED" &&
+        localTask.scheduleTimeMs <= currentTimeMs &&
+        (!next || localTask.scheduleTimeMs < next[0].scheduleTimeMs)
+      ) {
+        next = [localTask, registered];
+      }
+    }
+
+    return next;
+  }
+
+  /**
+   * Dispatches all tasks for which the schedule time has passed, in order of
+   * their schedule time. Tasks that are scheduled by handlers during the run
+   * are also dispatched if they are due. Tasks for queues without a registered
+   * handler, and tasks in paused queues, remain pending.
+   *
+   * @returns The number of dispatch attempts that were made
+   */
+  async function runDueTasks() {
+    let count = 0;
+    let next = getNextDueTask();
+
+    while (next) {
+      await dispatch(...next);
+      count += 1;
+      next = getNextDueTask();
+    }
+
+    return count;
+  }
+
+  /**
+   * Returns the tasks that are waiting to be dispatched, optionally filtered by
+   * queue name
+   */
+  function getPendingTasks(queueName?: string) {
+    return [...tasks.values()]
+      .filter((localTask) => !queueName || localTask.queueName === queueName)
+      .map((localTask) => ({
+        name: localTask.name,
+        queueName: localTask.queueName,
+        data: decodeTaskData(localTask.task),
+        scheduleTime: new Date(localTask.scheduleTimeMs),
+        retryCount: localTask.retryCount,
+      }));
+  }
+
+  /** Returns all dispatch attempts, optionally filtered by queue name */
+  function getDispatches(queueName?: string) {
+    return dispatches.filter(
+      (record) => !queueName || record.queueName === queueName,
+    );
+  }
+
+  /** Removes all tasks, task names, queues, and dispatch records */
+  function reset() {
+    tasks.clear();
+    queues.clear();
+    usedTaskNames.clear();
+    dispatches.length = 0;
+  }
+
+  return {
+    [localTasksClientMarker]: true as const,
+    locationPath,
+    queuePath,
+    taskPath,
+    createTask,
+    getTask,
+    deleteTask,
+    getQueue,
+    createQueue,
+    updateQueue,
+    pauseQueue,
+    resumeQueue,
+    purgeQueue,
+    listTasksAsync,
+    registerHandler,
+    runDueTasks,
+    getPendingTasks,
+    getDispatches,
+    reset,
+  };
+}
+
+/** Type definition for the local tasks client */
+export type LocalTasksClient = ReturnType<typeof createLocalTasksClient>;
+
+/** Checks if a tasks client is a local tasks client */
+export function isLocalTasksClient(client: object): client is LocalTasksClient {
+  return localTasksClientMarker in client;
+}
@@ -0,0 +1,59 @@
+import type {
+  GlobalTaskMiddleware,
+  TaskDefinitionRecord,
+  TaskMiddleware,
+  TaskMiddlewareContext,
+} from "./types";
+
+/**
+ * Composes middleware into a single function, in the style of koa-compose. The
+ * middleware run in order, and the final function runs when the last middleware
+ * calls `next`.
+ *
+ * @param middleware - The middleware to compose
+ * @param final - Function to run at the end of the chain, typically the handler
+ * @returns A function that runs the whole chain for a context
+ */
+export function composeMiddleware<Payload, QueueName extends string>(
+  middleware: TaskMiddleware<Payload, QueueName>[],
+  final: (ctx: TaskMiddlewareContext<Payload, QueueName>) => Promise<void>,
+) {
+  return (ctx: TaskMiddlewareContext<Payload, QueueName>) => {
+    let lastIndex = -1;
+
+    async function dispatch(index: number): Promise<void> {
+      if (index <= lastIndex) {
+        throw new Error(
+          `Middleware for queue ${ctx.queueName} called next() multiple times`,
+        );
+      }
+
+      lastIndex = index;
+
+      const fn = middleware[index];
+
+      if (!fn) {
+        return final(ctx);
+      }
+
+      return fn(ctx, () => dispatch(index + 1));
+    }
+
+    return dispatch(0);
+  };
+}
+
+/**
+ * Widens a middleware of createTypedTasks, whose context is a union over the
+ * queues of the definitions, to a middleware for any queue. The handler of a
+ * queue only passes contexts with the payload of that queue.
+ *
+ * @param middleware - The middleware, typed by the task definitions
+ * @returns The middleware, typed for any queue
+ */
+export function widenMiddleware<Defs extends TaskDefinitionRecord<string>>(
+  middleware: GlobalTaskMiddleware<Defs>,
+): TaskMiddleware {
+  return (ctx, next) =>
+    middleware(ctx as Parameters<GlobalTaskMiddleware<Defs>>[0], next);
+}
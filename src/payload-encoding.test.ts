@@ -0,0 +1,194 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { TaskScheduleError } from "./errors";
+import { createFileBlobStore, createMemoryBlobStore } from "./payload-encoding";
+import { createTestTasks } from "./test-utils/test-tasks";
+import type { BlobStore } from "./types";
+
+const reportSchema = z.object({
+  rows: z.array(z.string()),
+  generatedAt: z.iso.datetime().transform(Date.parse),
+});
+
+function setup(blobStore?: BlobStore) {
+  return createTestTasks(
+    {
+      importReport: {
+        schema: reportSchema,
+        options: { compression: "gzip" },
+      },
+      archiveReport: reportSchema,
+    },
+    { blobStore },
+  );
+}
+
+/** A payload of about 1.2 MB, which does not fit in a task */
+const largeReport = {
+  rows: Array.from({ length: 12_000 }, (_, index) =>
+    `row ${index} `.padEnd(100, "x"),
+  ),
+  generatedAt: "2024-01-01T00:00:00Z",
+};
+
+describe("payload encoding", () => {
+  it("gzips large payloads and validates them after decompressing", async () => {
+    const { client, tasks } = setup();
+    const handler = vi.fn(() => Promise.resolve());
+    tasks.createHandler({ queueName: "importReport", handler });
+
+    const { bodySizeBytes } =
+      await tasks.createScheduler("importReport")(largeReport);
+
+    expect(bodySizeBytes).toBeLessThan(100_000);
+    expect(client.getPendingTasks()).toMatchObject([
+      {
+        data: {
+          __typedTasks: { encoding: "gzip" },
+          payload: expect.any(String),
+        },
+      },
+    ]);
+
+    await client.runDueTasks();
+
+    expect(handler).toHaveBeenCalledWith(
+      { ...largeReport, generatedAt: Date.parse(largeReport.generatedAt) },
+      expect.anything(),
+    );
+  });
+
+  it("offloads payloads that do not fit in a task to the blob store", async () => {
+    const blobStore = createMemoryBlobStore();
+    const { client, tasks } = setup(blobStore);
+    const handler = vi.fn(() => Promise.resolve());
+    tasks.createHandler({ queueName: "archiveReport", handler });
+
+    await tasks.createScheduler("archiveReport")(largeReport);
+
+    const data = client.getPendingTasks()[0]?.data as {
+      __typedTasks: { blobKey: string };
+    };
+    const { blobKey } = data.__typedTasks;
+
+    expect(blobKey).toMatch(/^archiveReport\//);
+    expect(JSON.parse(String(await blobStore.get(blobKey)))).toEqual(
+      largeReport,
+    );
+
+    for await (const view of tasks.listTasks("archiveReport")) {
+      expect(view).toMatchObject({
+        isValid: true,
+        payload: { rows: largeReport.rows },
+      });
+    }
+
+    await client.runDueTasks();
+
+    expect(handler).toHaveBeenCalledWith(
+      { ...largeReport, generatedAt: Date.parse(largeReport.generatedAt) },
+      expect.anything(),
+    );
+    // Cloud Tasks can deliver the task again, so the store expires the payload
+    expect(await blobStore.get(blobKey)).toBeDefined();
+  });
+
+  it("keeps the blob of a task that is retried", async () => {
+    const blobStore = createMemoryBlobStore();
+    const { client, tasks } = setup(blobStore);
+    tasks.createHandler({
+      queueName: "archiveReport",
+      handler: () => Promise.reject(new Error("Storage unavailable")),
+    });
+
+    await tasks.createScheduler("archiveReport")(largeReport);
+    await client.runDueTasks();
+
+    const data = client.getPendingTasks()[0]?.data as {
+      __typedTasks: { blobKey: string };
+    };
+    expect(await blobStore.get(data.__typedTasks.blobKey)).toBeDefined();
+  });
+
+  it("deletes the blob of a task that was deduplicated", async () => {
+    const blobStore = createMemoryBlobStore();
+    const { client, tasks } = setup(blobStore);
+    const deleteBlob = vi.spyOn(blobStore, "delete");
+    const schedule = tasks.createScheduler("archiveReport");
+
+    await schedule(largeReport, { taskName: "archive-1" });
+    const { outcome } = await schedule(largeReport, { taskName: "archive-1" });
+
+    const data = client.getPendingTasks()[0]?.data as {
+      __typedTasks: { blobKey: string };
+    };
+
+    expect(outcome).toBe("deduplicated");
+    expect(deleteBlob).toHaveBeenCalledOnce();
+    expect(deleteBlob).not.toHaveBeenCalledWith(data.__typedTasks.blobKey);
+    expect(await blobStore.get(data.__typedTasks.blobKey)).toBeDefined();
+  });
+
+  it("lists a task whose blob is missing as undecodable", async () => {
+    const blobStore = createMemoryBlobStore();
+    const { client, tasks } = setup(blobStore);
+    const schedule = tasks.createScheduler("archiveReport");
+
+    await schedule(largeReport);
+    await schedule({ rows: ["row 0"], generatedAt: largeReport.generatedAt });
+
+    const data = client.getPendingTasks()[0]?.data as {
+      __typedTasks: { blobKey: string };
+    };
+    await blobStore.delete(data.__typedTasks.blobKey);
+
+    const views = [];
+
+    for await (const view of tasks.listTasks("archiveReport")) {
+      views.push(view);
+    }
+
+    expect(views).toMatchObject([
+      {
+        isValid: false,
+        isDecodable: false,
+        payload: undefined,
+        error: { message: expect.stringContaining(data.__typedTasks.blobKey) },
+      },
+      { isValid: true, isDecodable: true, payload: { rows: ["row 0"] } },
+    ]);
+  });
+
+  it("rejects payloads that do not fit in a task before creating it", async () => {
+    const { client, tasks } = setup();
+
+    await expect(
+      tasks.createScheduler("archiveReport")(largeReport),
+    ).rejects.toThrow(TaskScheduleError);
+    expect(client.getPendingTasks()).toEqual([]);
+  });
+
+  it("stores blobs as files", async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), "typed-tasks-"));
+    const blobStore = createFileBlobStore(directory);
+
+    try {
+      await blobStore.put("archiveReport/blob1", Buffer.from("content"));
+
+      expect(String(await blobStore.get("archiveReport/blob1"))).toBe(
+        "content",
+      );
+      expect(await blobStore.get("archiveReport/missing")).toBeUndefined();
+
+      await blobStore.delete("archiveReport/blob1");
+      await blobStore.delete("archiveReport/missing");
+
+      expect(await blobStore.get("archiveReport/blob1")).toBeUndefined();
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,319 @@
+import crypto from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { promisify } from "node:util";
+import zlib from "node:zlib";
+import {
+  defaultCompressionThresholdBytes,
+  maxTaskBodyBytes,
+} from "./constants";
+import {
+  decryptContent,
+  encryptContent,
+  resolveEncryption,
+} from "./encryption";
+import { unwrapPayload, wrapPayload, type EnvelopeMetadata } from "./envelope";
+import { TaskScheduleError } from "./errors";
+import { defaultSerializer } from "./serializer";
+import type { TaskConfig } from "./task-registry";
+import type {
+  BlobStore,
+  TaskEncryptionOptions,
+  TaskLogger,
+  TaskSerializer,
+} from "./types";
+
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+
+/** Settings for encoding payloads in task bodies and decoding them */
+export type PayloadEncodingSettings = {
+  /** Store for payloads that are too large for a task */
+  blobStore?: BlobStore;
+  /** Converts payloads to JSON and back, defaults to the default serializer */
+  serializer?: TaskSerializer;
+  /** Encryption of all queues, unless their task definition overrides it */
+  encryption?: TaskEncryptionOptions;
+};
+
+/**
+ * Creates a blob store that keeps a copy of each payload in a Map, so tests can
+ * inspect the stored payloads. See the testing docs for using it with the local
+ * tasks client, and createFileBlobStore for payloads that outlive the process.
+ *
+ * @returns A blob store backed by a Map
+ */
+export function createMemoryBlobStore(): BlobStore {
+  const blobs = new Map<string, Buffer>();
+
+  return {
+    put: (key, data) => {
+      blobs.set(key, Buffer.from(data));
+      return Promise.resolve();
+    },
+    get: (key) => Promise.resolve(blobs.get(key)),
+    delete: (key) => {
+      blobs.delete(key);
+      return Promise.resolve();
+    },
+  };
+}
+
+/**
+ * Creates a blob store that writes the payloads to files in a directory. It is
+ * meant for local development, for example with the Cloud Tasks and functions
+ * emulators running in different processes.
+ *
+ * @param directory - Directory in which the payloads are stored
+ * @returns A blob store backed by the filesystem
+ */
+export function createFileBlobStore(directory: string): BlobStore {
+  return {
+    put: async (key, data) => {
+      const filePath = path.join(directory, key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, data);
+    },
+    get: async (key) => {
+      try {
+        return await fs.readFile(path.join(directory, key));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+          return undefined;
+        }
+        throw error;
+      }
+    },
+    delete: (key) => fs.rm(path.join(directory, key), { force: true }),
+  };
+}
+
+/**
+ * Deletes the offloaded payload of a task that was not created. A failure is
+ * only logged, because the blob is no longer used.
+ *
+ * @param blobStore - The store with the payload
+ * @param blobKey - The key of the payload, if it was offloaded
+ * @param logger - Logger for failures
+ */
+export async function deleteOffloadedPayload(
+  blobStore: BlobStore | undefined,
+  blobKey: string | undefined,
+  logger: TaskLogger,
+) {
+  if (!blobStore || !blobKey) {
+    return;
+  }
+
+  try {
+    await blobStore.delete(blobKey);
+  } catch (error) {
+    logger.warn(`Failed to delete the offloaded payload ${blobKey}`, error);
+  }
+}
+
+/**
+ * Returns the JSON of the task body. The body HAS to contain the payload in the
+ * "data" key for the cloud functions onTaskDispatched to accept/parse it.
+ */
+function stringifyBody(payload: unknown, metadata: EnvelopeMetadata) {
+  return JSON.stringify({
+    data:
+      Object.keys(metadata).length > 0
+        ? wrapPayload(payload, metadata)
+        : payload,
+  });
+}
+
+/**
+ * Encodes a payload and its metadata as the JSON of the task body. The payload
+ * is serialized first, with the meta of the serializer in the envelope.
+ * Depending on the options of the queue, the payload is gzipped and then
+ * encrypted, and a body that is larger than the offload threshold gets a
+ * reference to the payload in the blob store instead.
+ *
+ * @param queueName - Name of the queue the task is scheduled on
+ * @param data - The payload to schedule
+ * @param metadata - The metadata to store with the payload
+ * @param taskConfig - The scheduler options of the queue
+ * @param settings - The blob store, serializer and encryption
+ * @returns The JSON of the task body, and the key of the offloaded payload
+ * @throws TaskScheduleError when the body is larger than Cloud Tasks allows
+ */
+export async function encodeTaskBody(
+  queueName: string,
+  data: unknown,
+  metadata: EnvelopeMetadata,
+  taskConfig: TaskConfig | undefined,
+  {
+    blobStore,
+    serializer = defaultSerializer,
+    encryption: globalEncryption,
+  }: PayloadEncodingSettings,
+) {
+  const { json: serialized, meta } = serializer.serialize(data);
+  const serializedMetadata: EnvelopeMetadata =
+    meta === undefined ? metadata : { ...metadata, serializationMeta: meta };
+  const json = JSON.stringify(serialized) ?? "null";
+  const jsonBytes = Buffer.from(json);
+  const isCompressed =
+    taskConfig?.compression === "gzip" &&
+    jsonBytes.byteLength >=
+      (taskConfig.compressionThresholdBytes ??
+        defaultCompressionThresholdBytes);
+
+  const plainContent = isCompressed ? await gzip(jsonBytes) : jsonBytes;
+  const plainMetadata: EnvelopeMetadata = isCompressed
+    ? { ...serializedMetadata, encoding: "gzip" }
+    : serializedMetadata;
+
+  // Compression comes first, because encrypted content does not compress
+  const encryption = resolveEncryption(taskConfig, globalEncryption);
+
+  /** Encrypts the content if needed, bound to the metadata that describes it */
+  const encode = async (metadata: EnvelopeMetadata) => {
+    if (!encryption) {
+      return { content: plainContent, metadata };
+    }
+
+    const encrypted = await encryptContent(
+      plainContent,
+      encryption.keyProvider,
+      metadata,
+    );
+
+    return {
+      content: encrypted.content,
+      metadata: { ...metadata, encryption: encrypted.encryption },
+    };
+  };
+
+  const { content, metadata: encodedMetadata } = await encode(plainMetadata);
+
+  let blobKey: string | undefined;
+  let body =
+    isCompressed || encryption
+      ? stringifyBody(content.toString("base64"), encodedMetadata)
+      : stringifyBody(serialized, encodedMetadata);
+
+  const offloadThresholdBytes =
+    taskConfig?.offloadThresholdBytes ?? maxTaskBodyBytes;
+
+  if (blobStore && Buffer.byteLength(body) > offloadThresholdBytes) {
+    // A unique key, so that deleting or replacing a task never affects another
+    blobKey = `${queueName}/${crypto.randomUUID()}`;
+    // The blob key is bound to encrypted content, so it is encrypted again
+    const offloaded = await encode({ ...plainMetadata, blobKey });
+    await blobStore.put(blobKey, offloaded.content);
+    body = stringifyBody(null, offloaded.metadata);
+  }
+
+  /**
+   * The client encodes the body with base64 for the request, but Cloud Tasks
+   * counts the decoded bytes
+   */
+  const bodyBytes = Buffer.byteLength(body);
+
+  if (bodyBytes > maxTaskBodyBytes) {
+    throw new TaskScheduleError(
+      queueName,
+      `The task body is ${bodyBytes} bytes, which is more than the ${maxTaskBodyBytes} bytes that fit in a task. Set compression to "gzip" in the task definition, or configure a blobStore in createTypedTasks to offload large payloads.`,
+    );
+  }
+
+  return { body, blobKey };
+}
+
+/**
+ * Returns the JSON value of a payload that was compressed, encrypted or
+ * offloaded. Other payloads are already a JSON value.
+ */
+async function readPayloadJson(
+  payload: unknown,
+  metadata: EnvelopeMetadata,
+  blobStore: BlobStore | undefined,
+  encryptionOptions: TaskEncryptionOptions | undefined,
+): Promise<unknown> {
+  const { encoding, blobKey, encryption } = metadata;
+
+  if (!encoding && !blobKey && !encryption) {
+    return payload;
+  }
+
+  let content: Buffer;
+
+  if (blobKey) {
+    if (!blobStore) {
+      throw new Error(
+        `The payload ${blobKey} is offloaded, which requires a blobStore in the options of createTypedTasks`,
+      );
+    }
+
+    const blob = await blobStore.get(blobKey);
+
+    if (!blob) {
+      throw new Error(
+        `The payload ${blobKey} does not exist in the blob store`,
+      );
+    }
+
+    content = blob;
+  } else {
+    content = Buffer.from(String(payload), "base64");
+  }
+
+  if (encryption) {
+    content = await decryptContent(
+      content,
+      encryption,
+      metadata,
+      encryptionOptions?.keyProvider,
+    );
+  }
+
+  const json = encoding === "gzip" ? await gunzip(content) : content;
+
+  return JSON.parse(json.toString("utf8"));
+}
+
+/**
+ * Restores the payload of task data that was compressed, encrypted, offloaded
+ * or serialized with type information, so it can be migrated and validated like
+ * any other payload
+ *
+ * @param data - The "data" key of the task body
+ * @param taskConfig - The scheduler options of the queue
+ * @param settings - The blob store, serializer and encryption
+ * @returns The task data with the decoded payload
+ * @throws When the payload is offloaded and can not be fetched, or can not be
+ *   decrypted, so that Cloud Tasks retries the task
+ */
+export async function decodeTaskPayload(
+  data: unknown,
+  taskConfig: TaskConfig | undefined,
+  {
+    blobStore,
+    serializer = defaultSerializer,
+    encryption: globalEncryption,
+  }: PayloadEncodingSettings,
+): Promise<unknown> {
+  const { payload, metadata } = unwrapPayload(data);
+  const { encoding, blobKey, encryption, serializationMeta, ...rest } =
+    metadata;
+
+  /**
+   * A queue that stopped encrypting can still have encrypted tasks pending, so
+   * they are decrypted with the global key provider
+   */
+  const json = await readPayloadJson(
+    payload,
+    { encoding, blobKey, encryption, serializationMeta },
+    blobStore,
+    taskConfig?.encryption ? taskConfig.encryption : globalEncryption,
+  );
+
+  return wrapPayload(
+    serializer.deserialize({ json, meta: serializationMeta }),
+    rest,
+  );
+}
@@ -0,0 +1,247 @@
+import type { CloudTasksClient } from "@google-cloud/tasks";
+import { describe, expect, expectTypeOf, it, vi } from "vitest";
+import { z } from "zod";
+import { createTestTasks } from "./test-utils/test-tasks";
+import type { TasksClient } from "./types";
+
+function setup() {
+  return createTestTasks(
+    {
+      sendEmail: z.object({ email: z.string() }),
+      syncUser: z.object({ userId: z.string() }),
+    },
+    { options: { retryConfig: { maxAttempts: 3 } } },
+  );
+}
+
+describe("syncQueues", () => {
+  it("accepts the Cloud Tasks client", () => {
+    expectTypeOf<CloudTasksClient>().toExtend<TasksClient>();
+  });
+
+  it("plans without changing the queues", async () => {
+    const { client, tasks } = setup();
+    tasks.createHandler({
+      queueName: "sendEmail",
+      handler: () => Promise.resolve(),
+    });
+    tasks.createHandler({
+      queueName: "syncUser",
+      handler: () => Promise.resolve(),
+    });
+
+    const result = await tasks.syncQueues();
+
+    expect(result.mode).toBe("plan");
+    expect(result.actions).toMatchObject([
+      { queueName: "sendEmail", action: "create", applied: false },
+      { queueName: "syncUser", action: "create", applied: false },
+    ]);
+    expect(result.actions[0]?.changes).toContainEqual({
+      field: "retryConfig.maxAttempts",
+      current: undefined,
+      desired: 3,
+    });
+
+    await expect(
+      client.getQueue({
+        name: client.queuePath("demo-project", "us-central1", "sendEmail"),
+      }),
+    ).rejects.toThrow("NOT_FOUND");
+  });
+
+  it("creates missing queues and updates queues that differ", async () => {
+    const { client, tasks } = setup();
+    tasks.createHandler({
+      queueName: "sendEmail",
+      handler: () => Promise.resolve(),
+    });
+    tasks.createHandler({
+      queueName: "syncUser",
+      handler: () => Promise.resolve(),
+    });
+
+    await tasks.syncQueues({ mode: "apply" });
+
+    const [queue] = await client.getQueue({
+      name: client.queuePath("demo-project", "us-central1", "sendEmail"),
+    });
+    expect(queue.retryConfig).toMatchObject({
+      maxAttempts: 3,
+      minBackoff: { seconds: 10, nanos: 0 },
+    });
+
+    tasks.createHandler({
+      queueName: "sendEmail",
+      options: { rateLimits: { maxConcurrentDispatches: 5 } },
+      handler: () => Promise.resolve(),
+    });
+
+    const plan = await tasks.syncQueues({
+      queueOptions: { syncUser: { retryConfig: { minBackoffSeconds: 0.5 } } },
+    });
+
+    expect(plan.actions).toEqual([
+      {
+        queueName: "sendEmail",
+        action: "update",
+        changes: [
+          {
+            field: "rateLimits.maxConcurrentDispatches",
+            current: 1000,
+            desired: 5,
+          },
+        ],
+        applied: false,
+      },
+      {
+        queueName: "syncUser",
+        action: "update",
+        changes: [
+          { field: "retryConfig.minBackoff", current: 10, desired: 0.5 },
+        ],
+        applied: false,
+      },
+    ]);
+
+    await tasks.syncQueues({
+      mode: "apply",
+      queueNames: ["sendEmail"],
+    });
+
+    const { actions } = await tasks.syncQueues();
+    expect(actions.map(({ action }) => action)).toEqual(["none", "none"]);
+  });
+
+  it("treats a duration that the API omits as 0", async () => {
+    const { client, tasks } = setup();
+    tasks.createHandler({
+      queueName: "sendEmail",
+      handler: () => Promise.resolve(),
+    });
+
+    // Cloud Tasks does not return the unlimited maxRetryDuration of 0
+    await client.createQueue({
+      parent: client.locationPath("demo-project", "us-central1"),
+      queue: {
+        name: client.queuePath("demo-project", "us-central1", "sendEmail"),
+        rateLimits: {
+          maxDispatchesPerSecond: 500,
+          maxConcurrentDispatches: 1000,
+        },
+        retryConfig: {
+          maxAttempts: 3,
+          minBackoff: { seconds: 10 },
+          maxBackoff: { seconds: 3600 },
+        },
+      },
+    });
+
+    const plan = await tasks.syncQueues({ queueNames: ["sendEmail"] });
+
+    expect(plan.actions).toMatchObject([
+      { queueName: "sendEmail", action: "none" },
+    ]);
+  });
+
+  it("skips the queues whose handler was not created", async () => {
+    const { client, tasks } = setup();
+    tasks.createHandler({
+      queueName: "sendEmail",
+      handler: () => Promise.resolve(),
+    });
+
+    const plan = await tasks.syncQueues();
+    const applied = await tasks.syncQueues({
+      mode: "apply",
+      queueOptions: { syncUser: { retryConfig: { maxAttempts: 5 } } },
+    });
+
+    expect(plan.actions[1]).toEqual({
+      queueName: "syncUser",
+      action: "skip",
+      changes: [],
+      applied: false,
+    });
+    expect(applied.actions.map(({ action }) => action)).toEqual([
+      "create",
+      "skip",
+    ]);
+    await expect(
+      client.getQueue({
+        name: client.queuePath("demo-project", "us-central1", "syncUser"),
+      }),
+    ).rejects.toThrow("NOT_FOUND");
+  });
+});
+
+describe("queue administration", () => {
+  it("pauses, resumes and purges a queue", async () => {
+    const { client, tasks } = setup();
+    const handler = vi.fn(() => Promise.resolve());
+    const scheduleEmail = tasks.createScheduler("sendEmail");
+
+    tasks.createHandler({ queueName: "sendEmail", handler });
+
+    await tasks.pauseQueue("sendEmail");
+    await scheduleEmail({ email: "first@example.com" });
+    await client.runDueTasks();
+    expect(handler).not.toHaveBeenCalled();
+
+    await tasks.resumeQueue("sendEmail");
+    await client.runDueTasks();
+    expect(handler).toHaveBeenCalledTimes(1);
+
+    await tasks.pauseQueue("sendEmail");
+    await scheduleEmail({ email: "second@example.com" });
+    await tasks.purgeQueue("sendEmail");
+    await tasks.resumeQueue("sendEmail");
+    await client.runDueTasks();
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it("lists tasks with decoded payloads and marks invalid ones", async () => {
+    const { tasks } = setup();
+    const scheduleEmail = tasks.createScheduler("sendEmail");
+
+    await scheduleEmail({ email: "test@example.com" });
+    await scheduleEmail({ email: 42 } as unknown as { email: string });
+    await tasks.createScheduler("syncUser")({ userId: "user1" });
+
+    const views = [];
+
+    for await (const task of tasks.listTasks("sendEmail", { pageSize: 1 })) {
+      views.push(task);
+    }
+
+    expect(views).toMatchObject([
+      {
+        queueName: "sendEmail",
+        isValid: true,
+        payload: { email: "test@example.com" },
+      },
+      { queueName: "sendEmail", isValid: false, payload: { email: 42 } },
+    ]);
+  });
+
+  it("lists a task with a body that is not JSON as undecodable", async () => {
+    const { client, tasks } = setup();
+
+    await client.createTask({
+      parent: client.queuePath("demo-project", "us-central1", "sendEmail"),
+      task: {
+        httpRequest: { body: Buffer.from("not json").toString("base64") },
+      },
+    });
+
+    const views = [];
+
+    for await (const task of tasks.listTasks("sendEmail")) {
+      views.push(task);
+    }
+
+    expect(views).toMatchObject([
+      { queueName: "sendEmail", isValid: false, isDecodable: false },
+    ]);
+  });
+});
@@ -0,0 +1,378 @@
+import type { protos } from "@google-cloud/tasks";
+import { got } from "get-or-throw";
+import { isWindowMarker } from "./deduplication-window";
+import type { PayloadEncodingSettings } from "./payload-encoding";
+import { isNotFoundError } from "./status-errors";
+import { createTaskView, createUndecodableTaskView } from "./task-lookup";
+import { getQueueLocation, type TaskRegistry } from "./task-registry";
+import type {
+  ListTasksOptions,
+  QueueSyncAction,
+  QueueSyncChange,
+  QueueSyncOptions,
+  QueueSyncResult,
+  SchemaRecord,
+  TaskHandlerOptions,
+  TaskLogger,
+  TasksClient,
+  TaskView,
+} from "./types";
+
+type Queue = protos.google.cloud.tasks.v2.IQueue;
+
+/**
+ * A queue field that is managed by syncQueues, with the way to read it from the
+ * handler options and the queue
+ */
+type QueueField = {
+  /** Path in the queue object, used to report changes */
+  field: string;
+  /** Path in the update mask, which uses the proto field names */
+  maskPath: string;
+  getDesired: (options: TaskHandlerOptions) => unknown;
+  getCurrent: (queue: Queue) => number | undefined;
+};
+
+/**
+ * Converts a protobuf duration to seconds. The API omits a duration of 0, like
+ * the unlimited maxRetryDuration, so a missing duration is 0.
+ */
+function durationToSeconds(
+  duration: protos.google.protobuf.IDuration | null | undefined,
+) {
+  return Number(duration?.seconds ?? 0) + (duration?.nanos ?? 0) / 1e9;
+}
+
+/** Converts seconds to a protobuf duration */
+function secondsToDuration(seconds: number) {
+  const wholeSeconds = Math.floor(seconds);
+  return {
+    seconds: wholeSeconds,
+    nanos: Math.round((seconds - wholeSeconds) * 1e9),
+  };
+}
+
+const queueFields: QueueField[] = [
+  {
+    field: "rateLimits.maxDispatchesPerSecond",
+    maskPath: "rate_limits.max_dispatches_per_second",
+    getDesired: (options) => options.rateLimits?.maxDispatchesPerSecond,
+    getCurrent: (queue) =>
+      queue.rateLimits?.maxDispatchesPerSecond ?? undefined,
+  },
+  {
+    field: "rateLimits.maxConcurrentDispatches",
+    maskPath: "rate_limits.max_concurrent_dispatches",
+    getDesired: (options) => options.rateLimits?.maxConcurrentDispatches,
+    getCurrent: (queue) =>
+      queue.rateLimits?.maxConcurrentDispatches ?? undefined,
+  },
+  {
+    field: "retryConfig.maxAttempts",
+    maskPath: "retry_config.max_attempts",
+    getDesired: (options) => options.retryConfig?.maxAttempts,
+    getCurrent: (queue) => queue.retryConfig?.maxAttempts ?? undefined,
+  },
+  {
+    field: "retryConfig.maxRetryDuration",
+    maskPath: "retry_config.max_retry_duration",
+    getDesired: (options) => options.retryConfig?.maxRetrySeconds,
+    getCurrent: (queue) =>
+      durationToSeconds(queue.retryConfig?.maxRetryDuration),
+  },
+  {
+    field: "retryConfig.minBackoff",
+    maskPath: "retry_config.min_backoff",
+    getDesired: (options) => options.retryConfig?.minBackoffSeconds,
+    getCurrent: (queue) => durationToSeconds(queue.retryConfig?.minBackoff),
+  },
+  {
+    field: "retryConfig.maxBackoff",
+    maskPath: "retry_config.max_backoff",
+    getDesired: (options) => options.retryConfig?.maxBackoffSeconds,
+    getCurrent: (queue) => durationToSeconds(queue.retryConfig?.maxBackoff),
+  },
+  {
+    field: "retryConfig.maxDoublings",
+    maskPath: "retry_config.max_doublings",
+    getDesired: (options) => options.retryConfig?.maxDoublings,
+    getCurrent: (queue) => queue.retryConfig?.maxDoublings ?? undefined,
+  },
+];
+
+/**
+ * Builds the queue configuration from the handler options. Values that are not
+ * static numbers, like param expressions, are skipped because they are only
+ * resolved at deploy time.
+ */
+function getDesiredValues(options: TaskHandlerOptions) {
+  return queueFields.flatMap((queueField) => {
+    const desired = queueField.getDesired(options);
+    return typeof desired === "number" ? [{ ...queueField, desired }] : [];
+  });
+}
+
+/** Builds the Cloud Tasks queue object for the given field values */
+function buildQueue(
+  name: string,
+  values: { field: string; desired: number }[],
+): Queue {
+  const value = (field: string) =>
+    values.find((entry) => entry.field === field)?.desired;
+  const duration = (field: string) => {
+    const seconds = value(field);
+    return seconds === undefined ? undefined : secondsToDuration(seconds);
+  };
+
+  return {
+    name,
+    rateLimits: {
+      maxDispatchesPerSecond: value("rateLimits.maxDispatchesPerSecond"),
+      maxConcurrentDispatches: value("rateLimits.maxConcurrentDispatches"),
+    },
+    retryConfig: {
+      maxAttempts: value("retryConfig.maxAttempts"),
+      maxRetryDuration: duration("retryConfig.maxRetryDuration"),
+      minBackoff: duration("retryConfig.minBackoff"),
+      maxBackoff: duration("retryConfig.maxBackoff"),
+      maxDoublings: value("retryConfig.maxDoublings"),
+    },
+  };
+}
+
+/**
+ * Creates a function that compares the Cloud Tasks queues with the
+ * configuration, and optionally creates or updates them
+ *
+ * @param tasksClient - Google Cloud Tasks client instance
+ * @param projectId - GCP project ID
+ * @param region - GCP region
+ * @param taskRegistry - Registry containing the region and project overrides
+ * @param queueNames - Names of all queues in the definitions
+ * @param getHandlerOptions - Returns the merged handler options for a queue, or
+ *   undefined when its handler was not created in this process
+ * @param logger - Logger for the applied changes and the skipped queues
+ * @returns A function that resolves with the plan, or the applied actions
+ */
+export function createQueueSyncer(
+  tasksClient: TasksClient,
+  projectId: string,
+  region: string,
+  taskRegistry: TaskRegistry,
+  queueNames: string[],
+  getHandlerOptions: (
+    queueName: string,
+    queueOptions?: TaskHandlerOptions,
+  ) => TaskHandlerOptions | undefined,
+  logger: TaskLogger = console,
+) {
+  async function getExistingQueue(name: string) {
+    try {
+      const [queue] = await tasksClient.getQueue({ name });
+      return queue;
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async function syncQueue(
+    queueName: string,
+    mode: "plan" | "apply",
+    queueOptions?: TaskHandlerOptions,
+  ): Promise<QueueSyncAction> {
+    const location = getQueueLocation(
+      taskRegistry,
+      queueName,
+      projectId,
+      region,
+    );
+    const name = tasksClient.queuePath(
+      location.projectId,
+      location.region,
+      queueName,
+    );
+    const handlerOptions = getHandlerOptions(queueName, queueOptions);
+
+    /**
+     * Without its handler, the configuration would be the global options only,
+     * and applying it would revert the options of the deployed handler
+     */
+    if (!handlerOptions) {
+      if (mode === "apply") {
+        logger.warn(
+          `Skipped queue ${queueName}, because its handler was not created in this process`,
+        );
+      }
+
+      return { queueName, action: "skip", changes: [], applied: false };
+    }
+
+    const values = getDesiredValues(handlerOptions);
+    const existingQueue = await getExistingQueue(name);
+
+    if (!existingQueue) {
+      const changes: QueueSyncChange[] = values.map(({ field, desired }) => ({
+        field,
+        current: undefined,
+        desired,
+      }));
+
+      if (mode === "apply") {
+        await tasksClient.createQueue({
+          parent: tasksClient.locationPath(location.projectId, location.region),
+          queue: buildQueue(name, values),
+        });
+        logger.info(`Created queue ${queueName}`);
+      }
+
+      return {
+        queueName,
+        action: "create",
+        changes,
+        applied: mode === "apply",
+      };
+    }
+
+    const changedValues = values.filter(
+      ({ getCurrent, desired }) => getCurrent(existingQueue) !== desired,
+    );
+
+    if (changedValues.length === 0) {
+      return { queueName, action: "none", changes: [], applied: false };
+    }
+
+    if (mode === "apply") {
+      await tasksClient.updateQueue({
+        queue: buildQueue(name, changedValues),
+        updateMask: { paths: changedValues.map(({ maskPath }) => maskPath) },
+      });
+      logger.info(
+        `Updated queue ${queueName}: ${changedValues.map(({ field }) => field).join(", ")}`,
+      );
+    }
+
+    return {
+      queueName,
+      action: "update",
+      changes: changedValues.map(({ field, getCurrent, desired }) => ({
+        field,
+        current: getCurrent(existingQueue),
+        desired,
+      })),
+      applied: mode === "apply",
+    };
+  }
+
+  /**
+   * Synchronizes the queues one at a time, to stay well within the quota for
+   * queue administration requests
+   */
+  return async ({
+    mode = "plan",
+    queueNames: selectedQueueNames = queueNames,
+    queueOptions = {},
+  }: QueueSyncOptions = {}): Promise<QueueSyncResult> => {
+    const actions: QueueSyncAction[] = [];
+
+    for (const queueName of selectedQueueNames) {
+      actions.push(await syncQueue(queueName, mode, queueOptions[queueName]));
+    }
+
+    return { mode, actions };
+  };
+}
+
+/**
+ * Creates the functions to administer the queues of the task definitions
+ *
+ * @param tasksClient - Google Cloud Tasks client instance
+ * @param projectId - GCP project ID
+ * @param region - GCP region
+ * @param taskRegistry - Registry containing the region and project overrides
+ * @param schemas - Extracted schemas from task definitions
+ * @param logger - Logger for the administrative actions
+ * @param payloadEncoding - The blob store, serializer and encryption of the
+ *   payloads
+ * @returns The pauseQueue, resumeQueue, purgeQueue and listTasks functions
+ */
+export function createQueueAdmin(
+  tasksClient: TasksClient,
+  projectId: string,
+  region: string,
+  taskRegistry: TaskRegistry,
+  schemas: SchemaRecord,
+  logger: TaskLogger = console,
+  payloadEncoding: PayloadEncodingSettings = {},
+) {
+  const getQueuePath = (queueName: string) => {
+    const location = getQueueLocation(
+      taskRegistry,
+      queueName,
+      projectId,
+      region,
+    );
+    return tasksClient.queuePath(
+      location.projectId,
+      location.region,
+      queueName,
+    );
+  };
+
+  async function pauseQueue(queueName: string) {
+    await tasksClient.pauseQueue({ name: getQueuePath(queueName) });
+    logger.info(`Paused queue ${queueName}`);
+  }
+
+  async function resumeQueue(queueName: string) {
+    await tasksClient.resumeQueue({ name: getQueuePath(queueName) });
+    logger.info(`Resumed queue ${queueName}`);
+  }
+
+  async function purgeQueue(queueName: string) {
+    await tasksClient.purgeQueue({ name: getQueuePath(queueName) });
+    logger.info(`Purged queue ${queueName}`);
+  }
+
+  async function* listTasks(
+    queueName: string,
+    { pageSize }: ListTasksOptions = {},
+  ) {
+    const schema = got(schemas, queueName);
+
+    /**
+     * The client fetches the next page when the current one is consumed. The
+     * FULL view is needed to get the task body.
+     */
+    for await (const task of tasksClient.listTasksAsync({
+      parent: getQueuePath(queueName),
+      responseView: "FULL",
+      pageSize,
+    })) {
+      let view: TaskView<unknown>;
+
+      // One task that can not be decoded should not end the listing
+      try {
+        if (isWindowMarker(task)) {
+          continue;
+        }
+
+        view = await createTaskView(
+          task,
+          queueName,
+          schema,
+          taskRegistry.get(queueName),
+          payloadEncoding,
+        );
+      } catch (error) {
+        view = createUndecodableTaskView(task, queueName, error);
+      }
+
+      yield view;
+    }
+  }
+
+  return { pauseQueue, resumeQueue, purgeQueue, listTasks };
+}
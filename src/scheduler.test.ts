@@ -1,9 +1,16 @@
 import type { CloudTasksClient } from "@google-cloud/tasks";
 import crypto from "node:crypto";
-import { describe, expect, it, vi } from "vitest";
+import { afterEach, describe, expect, it, vi } from "vitest";
 import { z } from "zod";
-import { createSchedulerFactory } from "./scheduler";
+import { TaskScheduleError, TaskValidationError } from "./errors";
+import { createLocalTasksClient } from "./local-tasks-client";
+import {
+  createBatchSchedulerFactory,
+  createSchedulerFactory,
+} from "./scheduler";
 import { createTaskRegistry } from "./task-registry";
+import { createTestTasks } from "./test-utils/test-tasks";
+import type { DeduplicationMode } from "./types";
 
 describe("createSchedulerFactory", () => {
   it("schedules with deduplication window and generated task name", async () => {
@@ -46,7 +53,7 @@ describe("createSchedulerFactory", () => {
     };
 
     const createTask = vi.fn((request: TaskRequest) =>
-      Promise.resolve(request),
+      Promise.resolve([request.task]),
     );
 
     const tasksClient: CloudTasksClient = {
@@ -69,7 +76,7 @@ describe("createSchedulerFactory", () => {
     )("emailQueue");
 
     const payload = { email: "test@example.com" };
-    await scheduler(payload);
+    const result = await scheduler(payload);
 
     const baseHash = crypto
       .createHash("md5")
@@ -99,6 +106,513 @@ describe("createSchedulerFactory", () => {
       Buffer.from(JSON.stringify({ data: payload })).toString("base64"),
     );
 
+    expect(result).toEqual({
+      outcome: "created",
+      taskName: task.name,
+      scheduleTime: new Date(expectedScheduleSeconds * 1000),
+      attempts: 1,
+      bodySizeBytes: task.httpRequest.body.length,
+    });
+
+    vi.restoreAllMocks();
+  });
+
+  it("resolves the target URL and OIDC settings per queue", async () => {
+    const client = createLocalTasksClient();
+    const taskRegistry = createTaskRegistry();
+    taskRegistry.set("reportQueue", {
+      target: {
+        serviceAccountEmail: "reports@demo-project.iam.gserviceaccount.com",
+        audience: "https://reports.example.com",
+      },
+    });
+
+    const createScheduler = createSchedulerFactory<{
+      emailQueue: z.ZodType<{ email: string }>;
+      reportQueue: z.ZodType<{ reportId: string }>;
+    }>(client, "demo-project", "us-central1", taskRegistry, {
+      target: {
+        resolveUrl: ({ queueName, region }) =>
+          `https://${queueName.toLowerCase()}-123456789.${region}.run.app`,
+        serviceAccountEmail: "tasks@demo-project.iam.gserviceaccount.com",
+      },
+    });
+
+    await createScheduler("emailQueue")({ email: "test@example.com" });
+    await createScheduler("reportQueue")({ reportId: "report1" });
+
+    const [emailTask, reportTask] = await Promise.all(
+      client.getPendingTasks().map(async ({ name }) => {
+        const [task] = await client.getTask({ name });
+        return task.httpRequest;
+      }),
+    );
+
+    expect(emailTask).toMatchObject({
+      url: "https://emailqueue-123456789.us-central1.run.app",
+      oidcToken: {
+        serviceAccountEmail: "tasks@demo-project.iam.gserviceaccount.com",
+      },
+    });
+    expect(reportTask).toMatchObject({
+      url: "https://reportqueue-123456789.us-central1.run.app",
+      oidcToken: {
+        serviceAccountEmail: "reports@demo-project.iam.gserviceaccount.com",
+        audience: "https://reports.example.com",
+      },
+    });
+  });
+});
+
+describe("validateOnSchedule", () => {
+  const definitions = {
+    sendReminder: z.object({
+      sendAt: z.string().transform((value) => new Date(value)),
+      channel: z.enum(["email", "push"]).default("email"),
+    }),
+  };
+
+  it("rejects invalid payloads and schedules the input form", async () => {
+    const handler = vi.fn(() => Promise.resolve());
+    const { client, tasks } = createTestTasks(definitions, {
+      validateOnSchedule: "throw",
+    });
+
+    tasks.createHandler({ queueName: "sendReminder", handler });
+    const scheduleReminder = tasks.createScheduler("sendReminder");
+
+    const error: unknown = await scheduleReminder({
+      sendAt: 42,
+    } as unknown as { sendAt: string }).catch((reason: unknown) => reason);
+
+    expect(error).toBeInstanceOf(TaskValidationError);
+    expect(error).toMatchObject({
+      queueName: "sendReminder",
+      issues: [expect.objectContaining({ path: ["sendAt"] })],
+    });
+    expect(client.getPendingTasks()).toHaveLength(0);
+
+    await scheduleReminder({ sendAt: "2024-01-01T00:00:00.000Z" });
+
+    expect(client.getPendingTasks()[0]?.data).toEqual({
+      sendAt: "2024-01-01T00:00:00.000Z",
+    });
+
+    await client.runDueTasks();
+    expect(handler).toHaveBeenCalledWith(
+      { sendAt: new Date("2024-01-01T00:00:00.000Z"), channel: "email" },
+      expect.anything(),
+    );
+  });
+
+  it("logs invalid payloads in warn mode and schedules them anyway", async () => {
+    const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const { client, tasks } = createTestTasks(definitions, {
+      validateOnSchedule: "warn",
+      logger,
+    });
+
+    await tasks.createScheduler("sendReminder")({
+      sendAt: 42,
+    } as unknown as { sendAt: string });
+
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.stringContaining("Invalid payload for queue sendReminder"),
+      expect.any(Array),
+    );
+    expect(client.getPendingTasks()).toHaveLength(1);
+  });
+});
+
+describe("per-queue location", () => {
+  it("schedules on the region and project of the task definition", async () => {
+    const client = createLocalTasksClient();
+    const taskRegistry = createTaskRegistry();
+    taskRegistry.set("reportQueue", {
+      region: "europe-west1",
+      projectId: "reports-project",
+    });
+
+    const createScheduler = createSchedulerFactory<{
+      emailQueue: z.ZodType<{ email: string }>;
+      reportQueue: z.ZodType<{ reportId: string }>;
+    }>(client, "demo-project", "us-central1", taskRegistry);
+
+    await createScheduler("emailQueue")(
+      { email: "test@example.com" },
+      { taskName: "email1" },
+    );
+    const result = await createScheduler("reportQueue")(
+      { reportId: "report1" },
+      { taskName: "report1" },
+    );
+
+    expect(result.taskName).toBe(
+      "projects/reports-project/locations/europe-west1/queues/reportQueue/tasks/report1",
+    );
+
+    const [reportTask] = await client.getTask({ name: result.taskName });
+    expect(reportTask.httpRequest).toMatchObject({
+      url: "https://europe-west1-reports-project.cloudfunctions.net/reportQueue",
+      oidcToken: {
+        serviceAccountEmail: "reports-project@appspot.gserviceaccount.com",
+      },
+    });
+    expect(client.getPendingTasks("emailQueue")).toMatchObject([
+      {
+        name: "projects/demo-project/locations/us-central1/queues/emailQueue/tasks/email1",
+      },
+    ]);
+  });
+});
+
+describe("deduplicationMode", () => {
+  /**
+   * 20 seconds into a 60 second bucket, so that a window that starts now ends
+   * in the next bucket
+   */
+  const now = 1_700_000_000_000;
+  const windowEnd = new Date(now + 60_000);
+  /** Falls in the next bucket, but still in the window that started at now */
+  const afterBoundary = now + 45_000;
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function setup(deduplicationMode: DeduplicationMode) {
+    const client = createLocalTasksClient();
+    const taskRegistry = createTaskRegistry();
+    taskRegistry.set("syncUser", {
+      deduplicationWindowSeconds: 60,
+      deduplicationMode,
+      deduplicationKey: ["userId"],
+    });
+
+    const scheduleSync = createSchedulerFactory<{
+      syncUser: z.ZodType<{ userId: string; reason: string }>;
+    }>(client, "demo-project", "us-central1", taskRegistry, {
+      logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+    })("syncUser");
+
+    return { client, scheduleSync };
+  }
+
+  it("runs once after a full window with the first payload in trailing mode", async () => {
+    const { client, scheduleSync } = setup("trailing");
+
+    vi.spyOn(Date, "now").mockReturnValue(now);
+    const first = await scheduleSync({ userId: "user1", reason: "first" });
+    vi.spyOn(Date, "now").mockReturnValue(now + 1000);
+    const repeated = await scheduleSync({ userId: "user1", reason: "second" });
+
+    expect(repeated).toMatchObject({
+      outcome: "deduplicated",
+      taskName: first.taskName,
+    });
+    expect(client.getPendingTasks()).toMatchObject([
+      { scheduleTime: windowEnd, data: { userId: "user1", reason: "first" } },
+    ]);
+  });
+
+  it("starts a new window in the next bucket in trailing mode, with only createTask", async () => {
+    const { client, scheduleSync } = setup("trailing");
+    const getTask = vi.spyOn(client, "getTask");
+
+    vi.spyOn(Date, "now").mockReturnValue(now);
+    const first = await scheduleSync({ userId: "user1", reason: "first" });
+    vi.spyOn(Date, "now").mockReturnValue(afterBoundary);
+    const nextBucket = await scheduleSync({
+      userId: "user1",
+      reason: "second",
+    });
+
+    expect(nextBucket).toMatchObject({
+      outcome: "created",
+      taskName: first.taskName.replace(/-28333333$/, "-28333334"),
+      scheduleTime: new Date(afterBoundary + 60_000),
+    });
+    expect(client.getPendingTasks()).toMatchObject([
+      { scheduleTime: windowEnd, data: { reason: "first" } },
+      {
+        scheduleTime: new Date(afterBoundary + 60_000),
+        data: { reason: "second" },
+      },
+    ]);
+    expect(getTask).not.toHaveBeenCalled();
+  });
+
+  it("runs immediately and skips repeats for a full window in leading mode", async () => {
+    const { client, scheduleSync } = setup("leading");
+
+    vi.spyOn(Date, "now").mockReturnValue(now);
+    const first = await scheduleSync({ userId: "user1", reason: "first" });
+    vi.spyOn(Date, "now").mockReturnValue(now + 1000);
+    const repeated = await scheduleSync({ userId: "user1", reason: "second" });
+    vi.spyOn(Date, "now").mockReturnValue(afterBoundary);
+    const afterBoundaryRepeat = await scheduleSync({
+      userId: "user1",
+      reason: "third",
+    });
+    vi.spyOn(Date, "now").mockReturnValue(windowEnd.getTime());
+    const nextWindow = await scheduleSync({
+      userId: "user1",
+      reason: "fourth",
+    });
+
+    expect(repeated).toMatchObject({
+      outcome: "deduplicated",
+      taskName: first.taskName,
+    });
+    expect(afterBoundaryRepeat).toMatchObject({
+      outcome: "deduplicated",
+      taskName: first.taskName,
+    });
+    expect(nextWindow.outcome).toBe("created");
+    expect(client.getPendingTasks()).toMatchObject([
+      {
+        scheduleTime: windowEnd,
+        data: { __typedTasks: { windowMarker: true } },
+      },
+      { scheduleTime: new Date(now), data: { reason: "first" } },
+      {
+        scheduleTime: new Date(now + 120_000),
+        data: { __typedTasks: { windowMarker: true } },
+      },
+      { scheduleTime: windowEnd, data: { reason: "fourth" } },
+    ]);
+  });
+
+  it("runs once at the end of the window with the latest payload in throttle mode", async () => {
+    const { client, scheduleSync } = setup("throttle");
+
+    vi.spyOn(Date, "now").mockReturnValue(now);
+    const first = await scheduleSync({ userId: "user1", reason: "first" });
+    vi.spyOn(Date, "now").mockReturnValue(now + 1000);
+    await scheduleSync({ userId: "user1", reason: "second" });
+    vi.spyOn(Date, "now").mockReturnValue(afterBoundary);
+    const latest = await scheduleSync({ userId: "user1", reason: "third" });
+
+    expect(first.taskName).toMatch(/-1$/);
+    expect(latest).toMatchObject({
+      outcome: "created",
+      taskName: first.taskName.replace(/-1$/, "-3"),
+      scheduleTime: windowEnd,
+    });
+    expect(client.getPendingTasks()).toMatchObject([
+      {
+        scheduleTime: windowEnd,
+        data: { __typedTasks: { windowMarker: true } },
+      },
+      { scheduleTime: windowEnd, data: { reason: "third" } },
+    ]);
+
+    vi.spyOn(Date, "now").mockReturnValue(windowEnd.getTime());
+    await scheduleSync({ userId: "user1", reason: "fourth" });
+
+    expect(client.getPendingTasks()).toMatchObject([
+      {
+        scheduleTime: windowEnd,
+        data: { __typedTasks: { windowMarker: true } },
+      },
+      { scheduleTime: windowEnd, data: { reason: "third" } },
+      {
+        scheduleTime: new Date(now + 120_000),
+        data: { __typedTasks: { windowMarker: true } },
+      },
+      { scheduleTime: new Date(now + 120_000), data: { reason: "fourth" } },
+    ]);
+  });
+
+  it("creates the next revision before it deletes the previous one in throttle mode", async () => {
+    const { client, scheduleSync } = setup("throttle");
+    const calls: string[] = [];
+    const createTask = client.createTask.bind(client);
+    const deleteTask = client.deleteTask.bind(client);
+
+    vi.spyOn(client, "createTask").mockImplementation((request) => {
+      calls.push(`create ${request.task?.name?.split("-").pop()}`);
+      return createTask(request);
+    });
+    vi.spyOn(client, "deleteTask").mockImplementation((request) => {
+      calls.push(`delete ${request.name?.split("-").pop()}`);
+      return deleteTask(request);
+    });
+
+    vi.spyOn(Date, "now").mockReturnValue(now);
+    await scheduleSync({ userId: "user1", reason: "first" });
+    await scheduleSync({ userId: "user1", reason: "second" });
+    await scheduleSync({ userId: "user1", reason: "third" });
+
+    // The marker is created first, and revisions are not looked up again
+    expect(calls.slice(1)).toEqual([
+      "create 1",
+      "create 2",
+      "delete 1",
+      "create 3",
+      "delete 2",
+    ]);
+  });
+
+  it("fails clearly when a new instance finds no free revision in throttle mode", async () => {
+    const { client, scheduleSync } = setup("throttle");
+
+    vi.spyOn(Date, "now").mockReturnValue(now);
+    for (let call = 0; call < 21; call++) {
+      await scheduleSync({ userId: "user1", reason: `call ${call}` });
+    }
+
+    const createTask = vi.spyOn(client, "createTask");
+    const taskRegistry = createTaskRegistry();
+    taskRegistry.set("syncUser", {
+      deduplicationWindowSeconds: 60,
+      deduplicationMode: "throttle",
+      deduplicationKey: ["userId"],
+    });
+    const scheduleSyncOnNewInstance = createSchedulerFactory<{
+      syncUser: z.ZodType<{ userId: string; reason: string }>;
+    }>(client, "demo-project", "us-central1", taskRegistry, {
+      logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+    })("syncUser");
+
+    await expect(
+      scheduleSyncOnNewInstance({ userId: "user1", reason: "latest" }),
+    ).rejects.toThrow(
+      "Invalid schedule for queue syncUser: revisions 1 to 20 of the throttle window",
+    );
+    // The marker is joined, and the search stops after 20 revisions
+    expect(createTask).toHaveBeenCalledTimes(21);
+  });
+});
+
+describe("runAt", () => {
+  const now = 1_700_000_000_000;
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function setup(deduplicationMode?: DeduplicationMode) {
+    const client = createLocalTasksClient();
+    const taskRegistry = createTaskRegistry();
+    taskRegistry.set("syncUser", {
+      deduplicationWindowSeconds: deduplicationMode ? 60 : undefined,
+      deduplicationMode,
+    });
+
+    const scheduleSync = createSchedulerFactory<{
+      syncUser: z.ZodType<{ userId: string }>;
+    }>(client, "demo-project", "us-central1", taskRegistry, {
+      logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+    })("syncUser");
+
+    return { client, scheduleSync };
+  }
+
+  it("schedules at the given time, also in leading mode", async () => {
+    vi.spyOn(Date, "now").mockReturnValue(now);
+    const runAt = new Date(now + 3_600_000);
+
+    for (const mode of [undefined, "leading"] as const) {
+      const { client, scheduleSync } = setup(mode);
+      const result = await scheduleSync({ userId: "user1" }, { runAt });
+
+      // In leading mode, the task that marks the window is created first
+      expect(result.scheduleTime).toEqual(runAt);
+      expect(client.getPendingTasks().at(-1)).toMatchObject({
+        scheduleTime: runAt,
+        data: { userId: "user1" },
+      });
+    }
+  });
+
+  it("rejects options that conflict", async () => {
+    vi.spyOn(Date, "now").mockReturnValue(now);
+    const runAt = new Date(now + 3_600_000);
+
+    await expect(
+      setup().scheduleSync({ userId: "user1" }, { runAt, delaySeconds: 10 }),
+    ).rejects.toThrow(TaskScheduleError);
+    await expect(
+      setup().scheduleSync({ userId: "user1" }, { runAt: new Date("soon") }),
+    ).rejects.toThrow("runAt is not a valid date");
+    await expect(
+      setup("trailing").scheduleSync({ userId: "user1" }, { delaySeconds: 10 }),
+    ).rejects.toThrow(
+      "delaySeconds can not be combined with a deduplication window in trailing mode",
+    );
+  });
+});
+
+describe("createBatchSchedulerFactory", () => {
+  it("limits concurrency and returns a result per item", async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    const createTask = vi.fn(
+      async (request: {
+        task: { name?: string; httpRequest: { body: string } };
+      }) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        inFlight--;
+
+        if (request.task.name?.endsWith("/tasks/existing")) {
+          throw new Error("6 ALREADY_EXISTS: Requested entity already exists");
+        }
+
+        return [request.task];
+      },
+    );
+
+    const tasksClient = {
+      queuePath: (projectId: string, region: string, queue: string) =>
+        `projects/${projectId}/locations/${region}/queues/${queue}`,
+      taskPath: (
+        projectId: string,
+        region: string,
+        queue: string,
+        taskName: string,
+      ) =>
+        `projects/${projectId}/locations/${region}/queues/${queue}/tasks/${taskName}`,
+      createTask,
+    } as unknown as CloudTasksClient;
+
+    vi.spyOn(console, "info").mockImplementation(() => undefined);
+
+    const scheduleBatch = createBatchSchedulerFactory<{
+      emailQueue: z.ZodType<{ email: string }>;
+    }>(
+      tasksClient,
+      "demo-project",
+      "us-central1",
+      createTaskRegistry(),
+    )("emailQueue");
+
+    const items = Array.from({ length: 7 }, (_, index) => ({
+      data: { email: `user${index}@example.com` },
+    }));
+
+    const results = await scheduleBatch(
+      [
+        ...items,
+        {
+          data: { email: "dup@example.com" },
+          options: { taskName: "existing" },
+        },
+      ],
+      { concurrency: 3 },
+    );
+
+    expect(createTask).toHaveBeenCalledTimes(8);
+    expect(maxInFlight).toBe(3);
+    expect(results.map(({ status }) => status)).toEqual([
+      ...items.map(() => "scheduled"),
+      "deduplicated",
+    ]);
+    expect(results.map(({ index }) => index)).toEqual([0, 1, 2, 3, 4, 5, 6, 7]);
+
     vi.restoreAllMocks();
   });
 });
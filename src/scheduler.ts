@@ -1,234 +1,761 @@
-import type { CloudTasksClient } from "@google-cloud/tasks";
-import crypto from "node:crypto";
 import pRetry, { AbortError } from "p-retry";
 import type { z } from "zod";
-import type { TaskRegistry } from "./task-registry";
-import type { ExtractSchema, TaskDefinitionRecord } from "./types";
+import {
+  defaultBatchConcurrency,
+  maxScheduleDelaySeconds,
+  MINUTE_SECONDS,
+} from "./constants";
+import { assertValidTaskName, hashDeduplicationKey } from "./deduplication";
+import {
+  createWindowTaskCreator,
+  getWindowTaskName,
+  WindowDeduplicatedError,
+} from "./deduplication-window";
+import type { ContinuationOptions, ScheduleContinuation } from "./continuation";
+import type { EnvelopeMetadata } from "./envelope";
+import { TaskScheduleError, TaskValidationError } from "./errors";
+import { callHook } from "./hooks";
+import { deleteOffloadedPayload, encodeTaskBody } from "./payload-encoding";
+import { isAlreadyExistsError } from "./status-errors";
+import {
+  getQueueLocation,
+  type TaskConfig,
+  type TaskRegistry,
+} from "./task-registry";
+import { getCurrentVersion } from "./versioning";
+import type {
+  BlobStore,
+  DeduplicationMode,
+  ExtractSchema,
+  TaskBatchItem,
+  TaskBatchItemResult,
+  TaskBatchOptions,
+  ScheduleResult,
+  ScheduleValidationMode,
+  SchemaRecord,
+  TaskDefinitionRecord,
+  TaskEncryptionOptions,
+  TaskHooks,
+  TaskLogger,
+  TaskScheduleOptions,
+  TaskSerializer,
+  TasksClient,
+  TaskTargetContext,
+  TaskTargetOptions,
+} from "./types";
 
 /**
- * Generates a deterministic task name from payload data using MD5 hash When
- * deduplication window is set, includes a time window boundary suffix to
- * prevent collisions across different time windows
+ * Returns the time in seconds at which a task with a deduplication window is
+ * scheduled, depending on the deduplication mode of the queue
  *
- * @param data - The payload data to hash
- * @param deduplicationWindowSeconds - Optional deduplication window in seconds
- * @returns A string containing the MD5 hash of the stringified data, with
- *   optional time window suffix
+ * - Trailing and throttle: at the end of a window that starts now. When the call
+ *   falls in an open window, the window determines the time instead.
+ * - Leading: immediately, or at the time requested in the schedule options
  */
-function generateTaskNameFromPayload(
+function getWindowScheduleTime(
+  deduplicationWindowSeconds: number,
+  mode: DeduplicationMode,
+  requestedTimeSeconds?: number,
+) {
+  return mode === "leading"
+    ? requestedTimeSeconds
+    : Math.floor(Date.now() / 1000) + deduplicationWindowSeconds;
+}
+
+/**
+ * Resolves the name of a task with the deduplication rules of its queue. When
+ * deduplication is used and no name is given, the name is generated from the
+ * payload or its deduplication key. For queues with a deduplication window, the
+ * name of the window is added when the task is created.
+ *
+ * @param taskConfig - The scheduler options of the queue
+ * @param data - The payload data
+ * @param taskName - Optional explicit task name
+ * @param serializer - Converts the payload to JSON before it is hashed
+ * @returns The short task name, or undefined if Cloud Tasks should generate one
+ */
+export function resolveTaskName(
+  taskConfig: TaskConfig | undefined,
   data: unknown,
-  deduplicationWindowSeconds?: number,
-): string {
-  const dataString = typeof data === "string" ? data : JSON.stringify(data);
-  const baseHash = crypto.createHash("md5").update(dataString).digest("hex");
-
-  // If we have a deduplication window, add a time window suffix
-  if (deduplicationWindowSeconds && deduplicationWindowSeconds > 0) {
-    // Round the current timestamp to the nearest window boundary
-    const currentTime = Date.now();
-    const windowBoundary = Math.floor(
-      currentTime / (deduplicationWindowSeconds * 1000),
+  taskName?: string,
+  serializer?: TaskSerializer,
+) {
+  const deduplicationWindowSeconds = taskConfig?.deduplicationWindowSeconds;
+  const useDeduplication =
+    !!taskConfig?.useDeduplication ||
+    !!taskConfig?.deduplicationKey ||
+    (!!deduplicationWindowSeconds && deduplicationWindowSeconds > 0);
+
+  if (useDeduplication && !taskName) {
+    return hashDeduplicationKey(taskConfig, data, serializer);
+  }
+
+  return taskName;
+}
+
+/**
+ * Returns the time in seconds that is requested with the runAt or delaySeconds
+ * option, or undefined to run the task immediately
+ */
+function getRequestedScheduleTime(options: TaskScheduleOptions = {}) {
+  if (options.runAt) {
+    return Math.floor(options.runAt.getTime() / 1000);
+  }
+
+  if (options.delaySeconds && options.delaySeconds > 0) {
+    return Math.floor(Date.now() / 1000) + options.delaySeconds;
+  }
+
+  return undefined;
+}
+
+/**
+ * Throws a TaskScheduleError when the schedule options conflict. The runAt and
+ * delaySeconds options exclude each other, and a deduplication window in
+ * trailing or throttle mode determines the schedule time itself.
+ */
+function assertCompatibleScheduleOptions(
+  queueName: string,
+  taskConfig: TaskConfig | undefined,
+  { runAt, delaySeconds }: TaskScheduleOptions = {},
+) {
+  if (runAt !== undefined && Number.isNaN(runAt.getTime())) {
+    throw new TaskScheduleError(queueName, "runAt is not a valid date");
+  }
+
+  if (runAt !== undefined && delaySeconds !== undefined) {
+    throw new TaskScheduleError(
+      queueName,
+      "runAt and delaySeconds can not be combined",
     );
-    return `${baseHash}-${windowBoundary}`;
   }
 
-  return baseHash;
+  const deduplicationWindowSeconds = taskConfig?.deduplicationWindowSeconds;
+  const deduplicationMode = taskConfig?.deduplicationMode ?? "trailing";
+
+  if (
+    deduplicationWindowSeconds &&
+    deduplicationWindowSeconds > 0 &&
+    deduplicationMode !== "leading" &&
+    (runAt !== undefined || delaySeconds !== undefined)
+  ) {
+    throw new TaskScheduleError(
+      queueName,
+      `${runAt === undefined ? "delaySeconds" : "runAt"} can not be combined with a deduplication window in ${deduplicationMode} mode, because the window determines the schedule time`,
+    );
+  }
 }
 
 function getErrorMessage(error: unknown): string {
   return error instanceof Error ? error.message : String(error);
 }
 
+/** Settings that apply to all schedulers of a typed tasks instance */
+export type SchedulerSettings = {
+  /** Logger for scheduling messages, defaults to the console */
+  logger?: TaskLogger;
+  /** Lifecycle hooks called while scheduling tasks */
+  hooks?: TaskHooks;
+  /** Target URL and OIDC settings for all queues */
+  target?: TaskTargetOptions;
+  /** Schemas of the task definitions, used to validate on schedule */
+  schemas?: SchemaRecord;
+  /** Validation of payloads before they are scheduled, defaults to "off" */
+  validateOnSchedule?: ScheduleValidationMode;
+  /** Store for payloads that are too large for a task */
+  blobStore?: BlobStore;
+  /** Converts payloads to JSON, defaults to the default serializer */
+  serializer?: TaskSerializer;
+  /** Encryption of all queues, unless their task definition overrides it */
+  encryption?: TaskEncryptionOptions;
+};
+
 /**
- * Creates a factory function that produces type-safe task schedulers for
- * specific tasks
+ * Resolves the URL and OIDC settings of a queue, with the options of the task
+ * definition taking precedence over the global options
+ */
+function resolveTarget(
+  context: TaskTargetContext,
+  globalTarget: TaskTargetOptions,
+  taskTarget: TaskTargetOptions = {},
+) {
+  const {
+    resolveUrl = ({ queueName, projectId, region }: TaskTargetContext) =>
+      `https://${region}-${projectId}.cloudfunctions.net/${queueName}`,
+    serviceAccountEmail = `${context.projectId}@appspot.gserviceaccount.com`,
+    audience,
+  } = { ...globalTarget, ...taskTarget };
+
+  return { url: resolveUrl(context), serviceAccountEmail, audience };
+}
+
+/**
+ * Creates the function that schedules a single task on a queue. It is shared by
+ * the single and batch schedulers.
  *
  * @param tasksClient - Google Cloud Tasks client
  * @param projectId - Google Cloud project ID
  * @param region - GCP region for the Cloud Tasks
  * @param taskRegistry - Registry containing task configurations from task
  *   definitions
- * @returns A factory function for creating task schedulers
+ * @param settings - Logger, hooks, target, validation, blob store, serializer
+ *   and encryption settings
+ * @returns A function that schedules a task and resolves with the result
  */
-export function createSchedulerFactory<
-  Defs extends TaskDefinitionRecord<string>,
->(
-  tasksClient: CloudTasksClient,
+function createScheduleTask(
+  tasksClient: TasksClient,
   projectId: string,
   region: string,
   taskRegistry: TaskRegistry,
+  {
+    logger = console,
+    hooks = {},
+    target: globalTarget = {},
+    schemas = {},
+    validateOnSchedule = "off",
+    blobStore,
+    serializer,
+    encryption,
+  }: SchedulerSettings,
 ) {
-  return <T extends keyof Defs & string>(queueName: T) => {
-    /**
-     * Schedules a task to be executed
-     *
-     * @param data - The data to schedule as a task, must conform to the task's
-     *   schema
-     * @param options - Optional configuration options including taskName for
-     *   deduplication and delaySeconds for custom delays
-     * @returns Promise that resolves when the task is scheduled
-     */
-    return async (
-      data: z.infer<ExtractSchema<Defs[T]>>,
-      options?: { taskName?: string; delaySeconds?: number },
-    ): Promise<void> => {
-      const taskConfig = taskRegistry.get(queueName);
-      const deduplicationWindowSeconds = taskConfig?.deduplicationWindowSeconds;
+  const createWindowTask = createWindowTaskCreator(tasksClient, logger);
 
-      const targetRegion = region;
+  /**
+   * Schedules a task. Continuations of chained and recurring tasks have a fixed
+   * name, and are always chained across the schedule limit.
+   */
+  return async (
+    queueName: string,
+    data: unknown,
+    options?: TaskScheduleOptions,
+    continuation?: ContinuationOptions,
+  ): Promise<ScheduleResult> => {
+    const startedAt = Date.now();
+    const taskConfig = taskRegistry.get(queueName);
+    const deduplicationMode = taskConfig?.deduplicationMode ?? "trailing";
+    // Continuations were deduplicated when the first task was scheduled
+    const deduplicationWindowSeconds =
+      !continuation &&
+      taskConfig?.deduplicationWindowSeconds &&
+      taskConfig.deduplicationWindowSeconds > 0
+        ? taskConfig.deduplicationWindowSeconds
+        : undefined;
 
-      // Get the parent queue path
-      const parent = tasksClient.queuePath(projectId, targetRegion, queueName);
+    const { projectId: targetProjectId, region: targetRegion } =
+      getQueueLocation(taskRegistry, queueName, projectId, region);
 
-      const serviceAccountEmail = `${projectId}@appspot.gserviceaccount.com`;
+    // Get the parent queue path
+    const parent = tasksClient.queuePath(
+      targetProjectId,
+      targetRegion,
+      queueName,
+    );
+
+    const { url, serviceAccountEmail, audience } = resolveTarget(
+      { queueName, projectId: targetProjectId, region: targetRegion },
+      globalTarget,
+      taskConfig?.target,
+    );
+
+    let scheduleTimeSeconds: number | undefined;
+    let fullTaskName: string | undefined;
+    let bodySizeBytes = 0;
+    let attempts = 0;
 
-      let scheduleTimeSeconds: number | undefined;
+    if (!continuation) {
+      assertCompatibleScheduleOptions(queueName, taskConfig, options);
+    }
 
-      const useDeduplication =
-        !!taskConfig?.useDeduplication ||
-        (!!deduplicationWindowSeconds && deduplicationWindowSeconds > 0);
+    /** Generate a task name if needed */
+    const finalTaskName = continuation
+      ? continuation.taskName
+      : resolveTaskName(taskConfig, data, options?.taskName, serializer);
 
-      /** Generate a task name if needed or add time window suffix */
-      let finalTaskName = options?.taskName;
-      if (useDeduplication && !finalTaskName) {
-        // No taskName provided, generate one with window suffix if needed
-        finalTaskName = generateTaskNameFromPayload(
-          data,
+    if (finalTaskName) {
+      assertValidTaskName(
+        queueName,
+        deduplicationWindowSeconds
+          ? getWindowTaskName(finalTaskName, deduplicationWindowSeconds)
+          : finalTaskName,
+      );
+    }
+
+    /**
+     * Priority: deduplicationWindowSeconds > runAt or delaySeconds If a
+     * deduplication window is configured, the deduplication mode determines the
+     * schedule time Otherwise, use runAt or delaySeconds if provided
+     */
+    const requestedTimeSeconds = getRequestedScheduleTime(options);
+
+    scheduleTimeSeconds = deduplicationWindowSeconds
+      ? getWindowScheduleTime(
           deduplicationWindowSeconds,
+          deduplicationMode,
+          requestedTimeSeconds,
+        )
+      : requestedTimeSeconds;
+
+    /**
+     * Cloud Tasks rejects tasks that are scheduled too far ahead. When chaining
+     * is allowed, the task is scheduled at the limit with the time it should
+     * run, and the handler schedules it again until it is due.
+     */
+    const limitSeconds =
+      Math.floor(Date.now() / 1000) + maxScheduleDelaySeconds;
+    let chainedRunAt: string | undefined;
+
+    if (
+      scheduleTimeSeconds !== undefined &&
+      scheduleTimeSeconds > limitSeconds
+    ) {
+      if (!continuation && taskConfig?.scheduleBeyondLimit !== "chain") {
+        throw new TaskScheduleError(
+          queueName,
+          `${new Date(scheduleTimeSeconds * 1000).toISOString()} is more than 30 days ahead, which is the limit of Cloud Tasks. Set scheduleBeyondLimit to "chain" in the task definition to chain the task across the limit.`,
         );
-      } else if (
-        finalTaskName &&
-        deduplicationWindowSeconds &&
-        deduplicationWindowSeconds > 0
-      ) {
-        // TaskName was provided, but we need to add time window suffix
-        const currentTime = Date.now();
-        const windowBoundary = Math.floor(
-          currentTime / (deduplicationWindowSeconds * 1000),
-        );
-        finalTaskName = `${finalTaskName}-${windowBoundary}`;
       }
 
-      try {
-        /**
-         * Priority: deduplicationWindowSeconds > delaySeconds If a
-         * deduplication window is configured, use that delay Otherwise, use
-         * delaySeconds if provided
-         */
-        if (deduplicationWindowSeconds && deduplicationWindowSeconds > 0) {
-          scheduleTimeSeconds =
-            Math.floor(Date.now() / 1000) + deduplicationWindowSeconds;
-        } else if (options?.delaySeconds && options.delaySeconds > 0) {
-          scheduleTimeSeconds =
-            Math.floor(Date.now() / 1000) + options.delaySeconds;
+      chainedRunAt = new Date(scheduleTimeSeconds * 1000).toISOString();
+      // Keep a margin, so the time is still within the limit when it arrives
+      scheduleTimeSeconds = limitSeconds - MINUTE_SECONDS;
+    }
+
+    const validationMode = taskConfig?.validateOnSchedule ?? validateOnSchedule;
+    const schema = schemas[queueName];
+
+    /**
+     * The payload is only validated here. The data is scheduled as it was
+     * passed, in its input form, so that transforms and defaults are applied
+     * once, in the handler.
+     */
+    if (validationMode !== "off" && schema) {
+      const validation = await schema.safeParseAsync(data);
+
+      if (!validation.success) {
+        const validationError = new TaskValidationError(
+          queueName,
+          validation.error,
+        );
+
+        if (validationMode === "throw") {
+          throw validationError;
         }
 
-        /**
-         * The body HAS to contain the payload in the "data" key for the cloud
-         * functions onTaskDispatched to accept/parse the body. It also needs to
-         * be encoded with base64.
-         */
-        const body = Buffer.from(JSON.stringify({ data })).toString("base64");
-
-        const task: {
-          name?: string;
-          httpRequest: {
-            httpMethod: "POST";
-            url: string;
-            oidcToken: { serviceAccountEmail: string };
-            headers: { "content-type": string };
-            body: string;
-          };
-          scheduleTime?: { seconds: number };
-        } = {
-          httpRequest: {
-            httpMethod: "POST",
-            url: `https://${targetRegion}-${projectId}.cloudfunctions.net/${queueName}`,
-            oidcToken: {
-              serviceAccountEmail,
-            },
-            headers: {
-              "content-type": "application/json",
-            },
-            body,
+        logger.warn(validationError.message, validation.error.issues);
+      }
+    }
+
+    /**
+     * For queues with schema versions, and for chained and recurring tasks, the
+     * payload is wrapped in an envelope that holds the metadata
+     */
+    const metadata: EnvelopeMetadata = { ...continuation?.metadata };
+
+    if (taskConfig?.versions?.length) {
+      metadata.version = getCurrentVersion(taskConfig.versions);
+    }
+
+    if (chainedRunAt) {
+      metadata.runAt = chainedRunAt;
+    }
+
+    // Like validation, a body that does not fit in a task fails before the try
+    const { body: json, blobKey } = await encodeTaskBody(
+      queueName,
+      data,
+      metadata,
+      taskConfig,
+      {
+        blobStore,
+        serializer,
+        encryption,
+      },
+    );
+
+    try {
+      /** The body needs to be encoded with base64 */
+      const body = Buffer.from(json).toString("base64");
+      bodySizeBytes = Buffer.byteLength(body);
+
+      const task: {
+        name?: string;
+        httpRequest: {
+          httpMethod: "POST";
+          url: string;
+          oidcToken: { serviceAccountEmail: string; audience?: string };
+          headers: { "content-type": string };
+          body: string;
+        };
+        scheduleTime?: { seconds: number };
+      } = {
+        httpRequest: {
+          httpMethod: "POST",
+          url,
+          oidcToken: audience
+            ? { serviceAccountEmail, audience }
+            : { serviceAccountEmail },
+          headers: {
+            "content-type": "application/json",
           },
+          body,
+        },
+      };
+
+      /**
+       * Set the task name property if we have a taskName (either provided or
+       * generated)
+       */
+      if (finalTaskName) {
+        task.name = tasksClient.taskPath(
+          targetProjectId,
+          targetRegion,
+          queueName,
+          finalTaskName,
+        );
+        fullTaskName = task.name;
+      }
+
+      /** Set schedule time if delay is configured */
+      if (scheduleTimeSeconds) {
+        task.scheduleTime = {
+          seconds: scheduleTimeSeconds,
         };
+      }
+
+      /** The window that this call opened, kept across the attempts */
+      const windowProgress = {};
+
+      /**
+       * Use p-retry to handle transient failures when creating tasks with
+       * exponential backoff and jitter
+       */
+      const [createdTask] = await pRetry(
+        async (attemptNumber) => {
+          attempts = attemptNumber;
+
+          try {
+            return deduplicationWindowSeconds && task.name
+              ? await createWindowTask(
+                  parent,
+                  { ...task, name: task.name },
+                  deduplicationMode,
+                  deduplicationWindowSeconds,
+                  windowProgress,
+                )
+              : await tasksClient.createTask({ parent, task });
+          } catch (error) {
+            // If task already exists, abort retry (part of deduplication)
+            if (isAlreadyExistsError(error)) {
+              throw new AbortError(error);
+            }
+            // A throttle window without a free revision does not free up
+            if (error instanceof TaskScheduleError) {
+              throw new AbortError(error);
+            }
+            throw error; // Let other errors be retried
+          }
+        },
+        {
+          retries: 5, // Maximum number of retry attempts
+          factor: 2, // Exponential backoff factor
+          minTimeout: 1000, // Initial retry delay (1 second)
+          maxTimeout: 10000, // Maximum retry delay (10 seconds)
+          randomize: true, // Add jitter to prevent thundering herd
+          onFailedAttempt: async ({ error, attemptNumber, retriesLeft }) => {
+            // Only log if not aborted due to ALREADY_EXISTS
+            if (!(error instanceof AbortError)) {
+              logger.warn(
+                `Task scheduling attempt ${attemptNumber} failed for ${queueName} (${url}). ${retriesLeft} retries left.`,
+                getErrorMessage(error),
+              );
+
+              await callHook(
+                hooks,
+                "onScheduleRetry",
+                {
+                  queueName,
+                  payload: data,
+                  error,
+                  attemptNumber,
+                  retriesLeft,
+                  durationMs: Date.now() - startedAt,
+                },
+                logger,
+              );
+            }
+          },
+        },
+      );
+
+      const createdScheduleSeconds = createdTask.scheduleTime?.seconds;
+
+      const result: ScheduleResult = {
+        outcome: "created",
+        taskName: createdTask.name ?? fullTaskName ?? "",
+        scheduleTime: chainedRunAt
+          ? new Date(chainedRunAt)
+          : new Date(
+              createdScheduleSeconds !== undefined &&
+                createdScheduleSeconds !== null
+                ? Number(createdScheduleSeconds) * 1000
+                : (scheduleTimeSeconds ?? Date.now() / 1000) * 1000,
+            ),
+        attempts,
+        bodySizeBytes,
+      };
+
+      await callHook(
+        hooks,
+        "onSchedule",
+        {
+          queueName,
+          payload: data,
+          result,
+          durationMs: Date.now() - startedAt,
+        },
+        logger,
+      );
+
+      return result;
+    } catch (error) {
+      if (isAlreadyExistsError(error)) {
+        // Task already exists, which is expected with deduplication
+        logger.info(`Skipping task ${finalTaskName}`, { data });
 
         /**
-         * Set the task name property if we have a taskName (either provided or
-         * generated)
+         * After a failed attempt, the existing task can be the one that this
+         * call created, so its payload is only deleted on the first attempt
          */
-        if (finalTaskName) {
-          task.name = tasksClient.taskPath(
-            projectId,
-            targetRegion,
-            queueName,
-            finalTaskName,
-          );
+        if (attempts === 1) {
+          await deleteOffloadedPayload(blobStore, blobKey, logger);
         }
 
-        /** Set schedule time if delay is configured */
-        if (scheduleTimeSeconds) {
-          task.scheduleTime = {
-            seconds: scheduleTimeSeconds,
-          };
-        }
+        // A window reports the task and the end of the window it fell in
+        const window =
+          error instanceof WindowDeduplicatedError ? error : undefined;
 
-        /**
-         * Use p-retry to handle transient failures when creating tasks with
-         * exponential backoff and jitter
-         */
-        await pRetry(
-          async () => {
-            try {
-              return await tasksClient.createTask({ parent, task });
-            } catch (error) {
-              // If task already exists, abort retry (part of deduplication)
-              if (
-                error instanceof Error &&
-                error.message.includes("ALREADY_EXISTS")
-              ) {
-                throw new AbortError(error.message);
-              }
-              throw error; // Let other errors be retried
-            }
-          },
+        const result: ScheduleResult = {
+          outcome: "deduplicated",
+          taskName: window?.taskName ?? fullTaskName ?? "",
+          scheduleTime: new Date(
+            chainedRunAt ??
+              (window?.endSeconds ?? scheduleTimeSeconds ?? Date.now() / 1000) *
+                1000,
+          ),
+          attempts,
+          bodySizeBytes,
+        };
+
+        await callHook(
+          hooks,
+          "onDeduplicated",
           {
-            retries: 5, // Maximum number of retry attempts
-            factor: 2, // Exponential backoff factor
-            minTimeout: 1000, // Initial retry delay (1 second)
-            maxTimeout: 10000, // Maximum retry delay (10 seconds)
-            randomize: true, // Add jitter to prevent thundering herd
-            onFailedAttempt: ({ error, attemptNumber, retriesLeft }) => {
-              // Only log if not aborted due to ALREADY_EXISTS
-              if (!(error instanceof AbortError)) {
-                console.warn(
-                  `Task scheduling attempt ${attemptNumber} failed for ${queueName}. ${retriesLeft} retries left.`,
-                  getErrorMessage(error),
-                );
-              }
-            },
+            queueName,
+            payload: data,
+            result,
+            durationMs: Date.now() - startedAt,
           },
+          logger,
         );
-      } catch (error) {
-        if (
-          error instanceof Error &&
-          error.message.includes("ALREADY_EXISTS")
-        ) {
-          // Task already exists, which is expected with deduplication
-          console.info(`Skipping task ${finalTaskName}`, { data });
-          return;
-        }
 
-        // For other errors, log and rethrow
-        const errorMessage = getErrorMessage(error);
-        console.error(
-          new Error(
-            `Failed to schedule task ${queueName} after multiple retries: ${errorMessage}`,
-          ),
-        );
-        throw error;
+        return result;
       }
-    };
+
+      // For other errors, log and rethrow
+      await deleteOffloadedPayload(blobStore, blobKey, logger);
+      const errorMessage = getErrorMessage(error);
+      logger.error(
+        new Error(
+          `Failed to schedule task ${queueName} (${url}) after multiple retries: ${errorMessage}`,
+        ),
+      );
+
+      await callHook(
+        hooks,
+        "onScheduleFailed",
+        {
+          queueName,
+          payload: data,
+          error,
+          attempts,
+          durationMs: Date.now() - startedAt,
+        },
+        logger,
+      );
+
+      throw error;
+    }
+  };
+}
+
+/**
+ * Runs an async function for each item, with at most `concurrency` calls in
+ * flight at the same time. Results are returned in the order of the items.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = [];
+  let nextIndex = 0;
+
+  async function worker() {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index] as T, index);
+    }
+  }
+
+  await Promise.all(
+    Array.from(
+      { length: Math.max(1, Math.min(concurrency, items.length)) },
+      () => worker(),
+    ),
+  );
+
+  return results;
+}
+
+/**
+ * Creates a factory function that produces type-safe task schedulers for
+ * specific tasks
+ *
+ * @param tasksClient - Google Cloud Tasks client
+ * @param projectId - Google Cloud project ID
+ * @param region - GCP region for the Cloud Tasks
+ * @param taskRegistry - Registry containing task configurations from task
+ *   definitions
+ * @param settings - Optional logger, hooks, target and validation settings
+ * @returns A factory function for creating task schedulers
+ */
+export function createSchedulerFactory<
+  Defs extends TaskDefinitionRecord<string>,
+>(
+  tasksClient: TasksClient,
+  projectId: string,
+  region: string,
+  taskRegistry: TaskRegistry,
+  settings: SchedulerSettings = {},
+) {
+  const scheduleTask = createScheduleTask(
+    tasksClient,
+    projectId,
+    region,
+    taskRegistry,
+    settings,
+  );
+
+  return <T extends keyof Defs & string>(queueName: T) => {
+    /**
+     * Schedules a task to be executed
+     *
+     * @param data - The data to schedule as a task, must conform to the task's
+     *   schema
+     * @param options - Optional configuration options including taskName for
+     *   deduplication and delaySeconds for custom delays
+     * @returns Promise that resolves with the result when the task is scheduled
+     *   or deduplicated
+     */
+    return (
+      data: z.input<ExtractSchema<Defs[T]>>,
+      options?: TaskScheduleOptions,
+    ): Promise<ScheduleResult> => scheduleTask(queueName, data, options);
+  };
+}
+
+/**
+ * Creates the function that schedules the continuations of chained and
+ * recurring tasks, which the handler calls before it acknowledges a task
+ *
+ * @param tasksClient - Google Cloud Tasks client
+ * @param projectId - Google Cloud project ID
+ * @param region - GCP region for the Cloud Tasks
+ * @param taskRegistry - Registry containing task configurations from task
+ *   definitions
+ * @param settings - Optional logger, hooks, target and validation settings
+ * @returns A function that schedules a continuation at the given time
+ */
+export function createContinuationScheduler(
+  tasksClient: TasksClient,
+  projectId: string,
+  region: string,
+  taskRegistry: TaskRegistry,
+  settings: SchedulerSettings = {},
+): ScheduleContinuation {
+  const scheduleTask = createScheduleTask(
+    tasksClient,
+    projectId,
+    region,
+    taskRegistry,
+    settings,
+  );
+
+  return (queueName, data, runAt, continuation) =>
+    scheduleTask(queueName, data, { runAt }, continuation);
+}
+
+/**
+ * Creates a factory function that produces type-safe batch schedulers for
+ * specific tasks
+ *
+ * @param tasksClient - Google Cloud Tasks client
+ * @param projectId - Google Cloud project ID
+ * @param region - GCP region for the Cloud Tasks
+ * @param taskRegistry - Registry containing task configurations from task
+ *   definitions
+ * @param settings - Optional logger, hooks, target and validation settings
+ * @returns A factory function for creating batch schedulers
+ */
+export function createBatchSchedulerFactory<
+  Defs extends TaskDefinitionRecord<string>,
+>(
+  tasksClient: TasksClient,
+  projectId: string,
+  region: string,
+  taskRegistry: TaskRegistry,
+  settings: SchedulerSettings = {},
+) {
+  const scheduleTask = createScheduleTask(
+    tasksClient,
+    projectId,
+    region,
+    taskRegistry,
+    settings,
+  );
+
+  return <T extends keyof Defs & string>(queueName: T) => {
+    /**
+     * Schedules multiple tasks, limiting the number of concurrent createTask
+     * calls. A failing item does not affect the other items.
+     *
+     * @param items - The payloads to schedule, each with optional scheduling
+     *   options
+     * @param options - Optional batch configuration
+     * @param options.concurrency - Maximum number of tasks that are scheduled
+     *   at the same time
+     * @returns Promise that resolves with a result for each item, in the same
+     *   order as the items
+     */
+    return (
+      items: TaskBatchItem<z.input<ExtractSchema<Defs[T]>>>[],
+      { concurrency = defaultBatchConcurrency }: TaskBatchOptions = {},
+    ): Promise<TaskBatchItemResult<z.input<ExtractSchema<Defs[T]>>>[]> =>
+      mapWithConcurrency(items, concurrency, async (item, index) => {
+        try {
+          const result = await scheduleTask(queueName, item.data, item.options);
+          return {
+            status:
+              result.outcome === "created"
+                ? ("scheduled" as const)
+                : ("deduplicated" as const),
+            index,
+            item,
+            result,
+          };
+        } catch (error) {
+          return { status: "failed" as const, index, item, error };
+        }
+      });
   };
 }
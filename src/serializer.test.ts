@@ -0,0 +1,137 @@
+import { describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { hashDeduplicationKey } from "./deduplication";
+import { defaultSerializer } from "./serializer";
+import { createTestTasks } from "./test-utils/test-tasks";
+import type { TaskSerializer } from "./types";
+
+function setup(serializer?: TaskSerializer) {
+  return createTestTasks(
+    {
+      settleInvoice: z.object({
+        invoiceId: z.string(),
+        dueAt: z.date(),
+        amountCents: z.bigint(),
+        lines: z.map(z.string(), z.bigint()),
+        tags: z.set(z.string()),
+      }),
+      sendEmail: z.object({ email: z.string() }),
+    },
+    { serializer },
+  );
+}
+
+const invoice = {
+  invoiceId: "invoice1",
+  dueAt: new Date("2024-01-31T00:00:00Z"),
+  amountCents: 12_345_678_901_234_567_890n,
+  lines: new Map([
+    ["hosting", 100n],
+    ["support", 200n],
+  ]),
+  tags: new Set(["priority"]),
+};
+
+describe("serialization", () => {
+  it("restores Dates, BigInts, Maps and Sets in the handler", async () => {
+    const { client, tasks } = setup();
+    const handler = vi.fn(() => Promise.resolve());
+    tasks.createHandler({ queueName: "settleInvoice", handler });
+
+    await tasks.createScheduler("settleInvoice")(invoice);
+
+    expect(client.getPendingTasks()).toMatchObject([
+      {
+        data: {
+          __typedTasks: { serializationMeta: expect.any(Array) },
+          payload: {
+            dueAt: "2024-01-31T00:00:00.000Z",
+            amountCents: "12345678901234567890",
+            lines: [
+              ["hosting", "100"],
+              ["support", "200"],
+            ],
+            tags: ["priority"],
+          },
+        },
+      },
+    ]);
+
+    await client.runDueTasks();
+
+    expect(handler).toHaveBeenCalledWith(invoice, expect.anything());
+  });
+
+  it("sends payloads without these types as plain JSON", async () => {
+    const { client, tasks } = setup();
+
+    await tasks.createScheduler("sendEmail")({ email: "a@example.com" });
+
+    expect(client.getPendingTasks()).toMatchObject([
+      { data: { email: "a@example.com" } },
+    ]);
+  });
+
+  it("uses a custom serializer in the scheduler and the handler", async () => {
+    const serializer: TaskSerializer = {
+      serialize: (payload) => ({ json: { wrapped: payload }, meta: "custom" }),
+      deserialize: ({ json, meta }) =>
+        meta === "custom" ? (json as { wrapped: unknown }).wrapped : json,
+    };
+    const { client, tasks } = setup(serializer);
+    const handler = vi.fn(() => Promise.resolve());
+    tasks.createHandler({ queueName: "sendEmail", handler });
+
+    await tasks.createScheduler("sendEmail")({ email: "a@example.com" });
+    await client.runDueTasks();
+
+    expect(client.getDispatches()).toMatchObject([
+      {
+        status: "success",
+        data: {
+          __typedTasks: { serializationMeta: "custom" },
+          payload: { wrapped: { email: "a@example.com" } },
+        },
+      },
+    ]);
+    expect(handler).toHaveBeenCalledWith(
+      { email: "a@example.com" },
+      expect.anything(),
+    );
+  });
+
+  it("hashes the serialized payload for deduplication", () => {
+    const hash = (data: unknown) =>
+      hashDeduplicationKey({ deduplicationHashFormat: "canonical" }, data);
+
+    expect(hash({ lines: new Map([["hosting", 1n]]) })).not.toBe(
+      hash({ lines: new Map([["support", 1n]]) }),
+    );
+    // Payloads that JSON can represent keep the names of earlier versions
+    expect(hashDeduplicationKey(undefined, { dueAt: invoice.dueAt })).toBe(
+      hashDeduplicationKey(undefined, { dueAt: "2024-01-31T00:00:00.000Z" }),
+    );
+    expect(
+      defaultSerializer.deserialize(defaultSerializer.serialize(invoice)),
+    ).toEqual(invoice);
+  });
+
+  it("only follows the meta to values of the payload itself", () => {
+    const deserialize = (path: (string | number)[]) =>
+      defaultSerializer.deserialize({
+        json: JSON.parse('{"__proto__":{"when":"2024-01-31"},"items":[]}'),
+        meta: [[path, "Date"]],
+      });
+
+    expect(deserialize(["__proto__", "when"])).toMatchObject({
+      ["__proto__"]: { when: new Date("2024-01-31") },
+    });
+    expect(() => deserialize(["constructor", "prototype", "polluted"])).toThrow(
+      'The serialization meta refers to ["constructor","prototype","polluted"]',
+    );
+    expect(() => deserialize(["items", 0])).toThrow(
+      "which does not exist in the payload",
+    );
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+});
@@ -0,0 +1,152 @@
+import type { SerializedPayload, TaskSerializer } from "./types";
+
+/** Types that JSON can not represent, which the default serializer restores */
+type TypeTag = "Date" | "bigint" | "Map" | "Set";
+
+/** Position of a value in the JSON, as a list of object keys and indexes */
+type ValuePath = (string | number)[];
+
+/** Meta of the default serializer: the tagged values, by their position */
+type TypeTags = [ValuePath, TypeTag][];
+
+/**
+ * Converts a value to JSON, and records the type of each value that JSON can
+ * not represent. Maps become lists of entries and Sets lists of values, so the
+ * tags of their contents have paths like any other nested value.
+ */
+function toJsonValue(value: unknown, path: ValuePath, tags: TypeTags): unknown {
+  if (value instanceof Date) {
+    tags.push([path, "Date"]);
+    return Number.isNaN(value.getTime()) ? "Invalid Date" : value.toISOString();
+  }
+
+  if (typeof value === "bigint") {
+    tags.push([path, "bigint"]);
+    return value.toString();
+  }
+
+  if (value instanceof Map) {
+    tags.push([path, "Map"]);
+    return [...value].map(([key, entryValue], index) => [
+      toJsonValue(key, [...path, index, 0], tags),
+      toJsonValue(entryValue, [...path, index, 1], tags),
+    ]);
+  }
+
+  if (value instanceof Set) {
+    tags.push([path, "Set"]);
+    return [...value].map((item, index) =>
+      toJsonValue(item, [...path, index], tags),
+    );
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item, index) =>
+      toJsonValue(item, [...path, index], tags),
+    );
+  }
+
+  if (typeof value === "object" && value !== null) {
+    // Like JSON.stringify, other classes decide their own JSON representation
+    if ("toJSON" in value && typeof value.toJSON === "function") {
+      return toJsonValue((value.toJSON as () => unknown)(), path, tags);
+    }
+
+    return Object.fromEntries(
+      Object.entries(value).map(([key, nestedValue]) => [
+        key,
+        toJsonValue(nestedValue, [...path, key], tags),
+      ]),
+    );
+  }
+
+  return value;
+}
+
+/** Restores a single tagged value from its JSON representation */
+function fromJsonValue(value: unknown, tag: TypeTag) {
+  switch (tag) {
+    case "Date":
+      return new Date(value as string);
+    case "bigint":
+      return BigInt(value as string);
+    case "Map":
+      return new Map(value as [unknown, unknown][]);
+    case "Set":
+      return new Set(value as unknown[]);
+  }
+}
+
+/**
+ * Returns the object that holds the last key of a path, following own
+ * properties only, so that the meta of a task can not reach a prototype
+ *
+ * @throws When the path does not exist in the payload
+ */
+function getOwnParent(root: unknown, path: ValuePath) {
+  let parent = root;
+
+  for (const [index, key] of path.entries()) {
+    if (
+      typeof parent !== "object" ||
+      parent === null ||
+      !Object.hasOwn(parent, key)
+    ) {
+      throw new Error(
+        `The serialization meta refers to ${JSON.stringify(path)}, which does not exist in the payload`,
+      );
+    }
+
+    if (index < path.length - 1) {
+      parent = (parent as Record<string, unknown>)[key];
+    }
+  }
+
+  return parent as Record<string, unknown>;
+}
+
+/**
+ * The default serializer. Dates, BigInts, Maps and Sets are converted to JSON
+ * and tagged with their type in the meta, in the style of superjson. Payloads
+ * without these types are sent as plain JSON, without meta.
+ */
+export const defaultSerializer: TaskSerializer = {
+  serialize: (payload) => {
+    const tags: TypeTags = [];
+    const json = toJsonValue(payload, [], tags);
+
+    return tags.length > 0 ? { json, meta: tags } : { json };
+  },
+  deserialize: ({ json, meta }: SerializedPayload) => {
+    if (!Array.isArray(meta)) {
+      return json;
+    }
+
+    let root = json;
+
+    // The contents of Maps and Sets are restored before the Maps and Sets
+    const tags = [...(meta as TypeTags)].sort(
+      ([a], [b]) => b.length - a.length,
+    );
+
+    for (const [path, tag] of tags) {
+      if (path.length === 0) {
+        root = fromJsonValue(root, tag);
+        continue;
+      }
+
+      const parent = getOwnParent(root, path);
+      const key = String(path.at(-1));
+
+      // Defining the property also covers keys like __proto__
+      Object.defineProperty(parent, key, {
+        value: fromJsonValue(parent[key], tag),
+        writable: true,
+        enumerable: true,
+        configurable: true,
+      });
+    }
+
+    return root;
+  },
+};
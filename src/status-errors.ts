@@ -0,0 +1,17 @@
+/** Checks if an error from the Cloud Tasks client means ALREADY_EXISTS */
+export function isAlreadyExistsError(error: unknown): error is Error {
+  return (
+    error instanceof Error &&
+    ((error as { code?: unknown }).code === 6 ||
+      error.message.includes("ALREADY_EXISTS"))
+  );
+}
+
+/** Checks if an error from the Cloud Tasks client means NOT_FOUND */
+export function isNotFoundError(error: unknown): error is Error {
+  return (
+    error instanceof Error &&
+    ((error as { code?: unknown }).code === 5 ||
+      error.message.includes("NOT_FOUND"))
+  );
+}
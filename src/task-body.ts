@@ -0,0 +1,26 @@
+import type { protos } from "@google-cloud/tasks";
+
+/**
+ * Decodes the base64 body of a task and returns the payload in its "data" key,
+ * the same way the Firebase onTaskDispatched wrapper does.
+ *
+ * @param task - A task as returned by the Cloud Tasks client, with the FULL
+ *   response view so that the body is included
+ * @returns The payload, or undefined if the task has no body
+ */
+export function decodeTaskData(
+  task: protos.google.cloud.tasks.v2.ITask,
+): unknown {
+  const body = task.httpRequest?.body;
+
+  if (!body) {
+    return undefined;
+  }
+
+  const json =
+    typeof body === "string"
+      ? Buffer.from(body, "base64").toString("utf8")
+      : Buffer.from(body).toString("utf8");
+
+  return (JSON.parse(json) as { data?: unknown }).data;
+}
@@ -0,0 +1,148 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { createTestTasks } from "./test-utils/test-tasks";
+
+function setup() {
+  return createTestTasks({
+    sendEmail: z.object({ email: z.string() }),
+    sendReminder: {
+      schema: z.object({ userId: z.string() }),
+      options: { deduplicationWindowSeconds: 60 },
+    },
+    sendDigest: {
+      schema: z.object({ userId: z.string() }),
+      options: {
+        deduplicationWindowSeconds: 60,
+        deduplicationMode: "leading",
+      },
+    },
+    syncProfile: {
+      schema: z.object({ userId: z.string() }),
+      options: {
+        deduplicationWindowSeconds: 60,
+        deduplicationMode: "throttle",
+        deduplicationKey: ["userId"],
+      },
+    },
+  });
+}
+
+describe("getTask and cancelTask", () => {
+  const now = 1_700_000_000_000;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(now);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("finds and cancels a task by payload", async () => {
+    const { client, tasks } = setup();
+    const handler = vi.fn(() => Promise.resolve());
+
+    tasks.createHandler({ queueName: "sendReminder", handler });
+    const result = await tasks.createScheduler("sendReminder")({
+      userId: "user1",
+    });
+
+    const task = await tasks.getTask("sendReminder", {
+      payload: { userId: "user1" },
+    });
+
+    expect(task).toMatchObject({
+      taskName: result.taskName,
+      queueName: "sendReminder",
+      scheduleTime: new Date(now + 60_000),
+      isValid: true,
+      payload: { userId: "user1" },
+    });
+
+    expect(
+      await tasks.cancelTask("sendReminder", { payload: { userId: "user1" } }),
+    ).toBe(true);
+    expect(
+      await tasks.cancelTask("sendReminder", { taskName: result.taskName }),
+    ).toBe(false);
+    expect(
+      await tasks.getTask("sendReminder", { payload: { userId: "user1" } }),
+    ).toBeUndefined();
+
+    vi.advanceTimersByTime(60_000);
+    await client.runDueTasks();
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it("marks tasks with a payload that does not match the schema", async () => {
+    const { tasks } = setup();
+
+    await tasks.createScheduler("sendEmail")(
+      { email: 42 } as unknown as { email: string },
+      { taskName: "welcome" },
+    );
+
+    const task = await tasks.getTask("sendEmail", { taskName: "welcome" });
+
+    expect(task).toMatchObject({
+      taskId: "welcome",
+      isValid: false,
+      payload: { email: 42 },
+    });
+  });
+
+  it("requires a task name for queues without deduplication", async () => {
+    const { tasks } = setup();
+
+    await expect(
+      tasks.getTask("sendEmail", { payload: { email: "test@example.com" } }),
+    ).rejects.toThrow("does not use deduplication");
+  });
+
+  it("finds the task of the open window in leading mode", async () => {
+    const { client, tasks } = setup();
+    const handler = vi.fn(() => Promise.resolve());
+
+    tasks.createHandler({ queueName: "sendDigest", handler });
+    const result = await tasks.createScheduler("sendDigest")({
+      userId: "user1",
+    });
+
+    expect(
+      await tasks.getTask("sendDigest", { payload: { userId: "user1" } }),
+    ).toMatchObject({
+      taskName: result.taskName,
+      payload: { userId: "user1" },
+    });
+
+    // The payload ran, but the window stays open
+    vi.advanceTimersByTime(45_000);
+    await client.runDueTasks();
+
+    expect(
+      await tasks.getTask("sendDigest", { payload: { userId: "user1" } }),
+    ).toBeUndefined();
+    expect(handler).toHaveBeenCalledOnce();
+
+    // The task at the end of the window is acknowledged without the handler
+    vi.advanceTimersByTime(15_000);
+    await client.runDueTasks();
+
+    expect(handler).toHaveBeenCalledOnce();
+    expect(client.getDispatches()).toMatchObject([
+      { taskId: result.taskName.split("/").pop(), status: "success" },
+      { status: "success" },
+    ]);
+  });
+
+  it("can not derive the task name of a throttled payload", async () => {
+    const { tasks } = setup();
+
+    await tasks.createScheduler("syncProfile")({ userId: "user1" });
+
+    await expect(
+      tasks.getTask("syncProfile", { payload: { userId: "user1" } }),
+    ).rejects.toThrow("every call in a throttle window creates a new task");
+  });
+});
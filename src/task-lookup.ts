@@ -0,0 +1,344 @@
+import type { protos } from "@google-cloud/tasks";
+import { got } from "get-or-throw";
+import type { z } from "zod";
+import { getRecurrenceId, getRecurrenceSuccessorName } from "./continuation";
+import {
+  createMarkerBody,
+  getLeadingRunTaskName,
+  getWindowTaskName,
+  isWindowMarker,
+  resolveWindowTaskName,
+} from "./deduplication-window";
+import { unwrapPayload } from "./envelope";
+import {
+  decodeTaskPayload,
+  type PayloadEncodingSettings,
+} from "./payload-encoding";
+import { resolveTaskName } from "./scheduler";
+import { isAlreadyExistsError, isNotFoundError } from "./status-errors";
+import { decodeTaskData } from "./task-body";
+import {
+  getQueueLocation,
+  type TaskConfig,
+  type TaskRegistry,
+} from "./task-registry";
+import type {
+  RecurringScheduleOptions,
+  SchemaRecord,
+  TaskLocator,
+  TaskView,
+  TasksClient,
+} from "./types";
+import { parseTaskData } from "./versioning";
+
+/** Converts a protobuf timestamp to a date */
+function timestampToDate(
+  timestamp: protos.google.protobuf.ITimestamp | null | undefined,
+) {
+  if (!timestamp) {
+    return undefined;
+  }
+
+  return new Date(
+    Number(timestamp.seconds ?? 0) * 1000 + (timestamp.nanos ?? 0) / 1e6,
+  );
+}
+
+/** The fields of a task view that do not depend on the payload */
+function getTaskFields(
+  task: protos.google.cloud.tasks.v2.ITask,
+  queueName: string,
+) {
+  const taskName = task.name ?? "";
+
+  return {
+    taskName,
+    taskId: taskName.split("/").pop() ?? taskName,
+    queueName,
+    scheduleTime: timestampToDate(task.scheduleTime),
+    createTime: timestampToDate(task.createTime),
+    dispatchCount: task.dispatchCount ?? 0,
+    responseCount: task.responseCount ?? 0,
+  };
+}
+
+/**
+ * Creates a typed view of a task, with the payload decoded from the body,
+ * migrated from older schema versions and validated against the schema of the
+ * queue
+ *
+ * @param task - A task with the FULL response view
+ * @param queueName - Name of the queue the task belongs to
+ * @param schema - The schema of the queue
+ * @param taskConfig - The configuration of the queue, with the previous
+ *   versions of the schema
+ * @param payloadEncoding - The blob store, serializer and encryption of the
+ *   payloads
+ * @returns The task view
+ */
+export async function createTaskView<Payload>(
+  task: protos.google.cloud.tasks.v2.ITask,
+  queueName: string,
+  schema: z.ZodType<Payload>,
+  taskConfig?: TaskConfig,
+  payloadEncoding: PayloadEncodingSettings = {},
+): Promise<TaskView<Payload>> {
+  const { result, payload } = parseTaskData(
+    await decodeTaskPayload(decodeTaskData(task), taskConfig, payloadEncoding),
+    schema,
+    taskConfig?.versions,
+  );
+
+  const view = {
+    ...getTaskFields(task, queueName),
+    isDecodable: true as const,
+  };
+
+  return result.success
+    ? { ...view, isValid: true, payload: result.data }
+    : { ...view, isValid: false, payload, error: result.error };
+}
+
+/**
+ * Creates the view of a task whose payload could not be decoded, for example
+ * because its blob or encryption key is missing
+ *
+ * @param task - A task with the FULL response view
+ * @param queueName - Name of the queue the task belongs to
+ * @param error - The error that was thrown while decoding the payload
+ * @returns The task view, without a payload
+ */
+export function createUndecodableTaskView(
+  task: protos.google.cloud.tasks.v2.ITask,
+  queueName: string,
+  error: unknown,
+): TaskView<never> {
+  return {
+    ...getTaskFields(task, queueName),
+    isValid: false,
+    isDecodable: false,
+    payload: undefined,
+    error: error instanceof Error ? error : new Error(String(error)),
+  };
+}
+
+/**
+ * Creates the functions to look up and cancel scheduled tasks
+ *
+ * @param tasksClient - Google Cloud Tasks client
+ * @param projectId - Google Cloud project ID
+ * @param region - GCP region for the Cloud Tasks
+ * @param schemas - Extracted schemas from task definitions
+ * @param taskRegistry - Registry containing the deduplication settings that are
+ *   used to derive task names
+ * @param payloadEncoding - The blob store, serializer and encryption of the
+ *   payloads
+ * @returns The getTask, cancelTask and cancelRecurring functions
+ */
+export function createTaskLookup(
+  tasksClient: TasksClient,
+  projectId: string,
+  region: string,
+  schemas: SchemaRecord,
+  taskRegistry: TaskRegistry,
+  payloadEncoding: PayloadEncodingSettings = {},
+) {
+  /** Returns the full resource name of a task on a queue */
+  function getTaskPath(queueName: string, taskName: string) {
+    const location = getQueueLocation(
+      taskRegistry,
+      queueName,
+      projectId,
+      region,
+    );
+
+    return tasksClient.taskPath(
+      location.projectId,
+      location.region,
+      queueName,
+      taskName,
+    );
+  }
+
+  /**
+   * Resolves the full resource name of a task from a locator. On queues with a
+   * deduplication window, it is the task of the window that is open now.
+   */
+  async function getFullTaskName(
+    queueName: string,
+    locator: TaskLocator<unknown>,
+  ) {
+    if ("taskName" in locator && locator.taskName.startsWith("projects/")) {
+      return locator.taskName;
+    }
+
+    const taskConfig = taskRegistry.get(queueName);
+    const taskName =
+      "taskName" in locator
+        ? resolveTaskName(taskConfig, undefined, locator.taskName)
+        : resolveTaskName(
+            taskConfig,
+            locator.payload,
+            undefined,
+            payloadEncoding.serializer,
+          );
+
+    if (!taskName) {
+      throw new Error(
+        `Can not derive a task name from the payload for queue ${queueName}, because it does not use deduplication`,
+      );
+    }
+
+    const fullTaskName = getTaskPath(queueName, taskName);
+    const windowSeconds = taskConfig?.deduplicationWindowSeconds;
+
+    if (!windowSeconds || windowSeconds <= 0) {
+      return fullTaskName;
+    }
+
+    switch (taskConfig?.deduplicationMode ?? "trailing") {
+      case "trailing":
+        return getWindowTaskName(fullTaskName, windowSeconds);
+      case "leading":
+        return getLeadingRunTaskName(
+          await resolveWindowTaskName(tasksClient, fullTaskName, windowSeconds),
+        );
+      case "throttle":
+        throw new Error(
+          `Can not derive a task name for queue ${queueName}, because every call in a throttle window creates a new task. Use the taskName of the schedule result, or listTasks.`,
+        );
+    }
+  }
+
+  async function getTask(queueName: string, locator: TaskLocator<unknown>) {
+    const name = await getFullTaskName(queueName, locator);
+
+    try {
+      const [task] = await tasksClient.getTask({ name, responseView: "FULL" });
+      return await createTaskView(
+        task,
+        queueName,
+        got(schemas, queueName),
+        taskRegistry.get(queueName),
+        payloadEncoding,
+      );
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  /** Deletes a task, and resolves with false if it did not exist */
+  async function deleteTask(name: string) {
+    try {
+      await tasksClient.deleteTask({ name });
+      return true;
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async function cancelTask(queueName: string, locator: TaskLocator<unknown>) {
+    return deleteTask(await getFullTaskName(queueName, locator));
+  }
+
+  /**
+   * Deletes a run of a recurrence, unless it is the marker of an earlier
+   * cancellation
+   */
+  async function deleteRun(name: string) {
+    try {
+      const [task] = await tasksClient.getTask({ name, responseView: "FULL" });
+      return !isWindowMarker(task) && (await deleteTask(name));
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Cancels the pending runs of a recurrence. A run that is being dispatched
+   * schedules the next run before it is handled, so the name of the next run is
+   * taken by a marker before a run is deleted. The handler acknowledges the
+   * marker without running.
+   */
+  async function cancelRecurring(
+    queueName: string,
+    payload: unknown,
+    { cron }: RecurringScheduleOptions,
+  ) {
+    const id = getRecurrenceId(cron, payload, payloadEncoding.serializer);
+    const location = getQueueLocation(
+      taskRegistry,
+      queueName,
+      projectId,
+      region,
+    );
+    const parent = tasksClient.queuePath(
+      location.projectId,
+      location.region,
+      queueName,
+    );
+    const runs = [];
+
+    // The runs are collected first, because deleting tasks can shift the pages
+    for await (const task of tasksClient.listTasksAsync({
+      parent,
+      responseView: "FULL",
+    })) {
+      const { metadata } = unwrapPayload(decodeTaskData(task));
+
+      if (metadata.recurrence?.id === id && !metadata.windowMarker) {
+        runs.push({ task, metadata });
+      }
+    }
+
+    let cancelledCount = 0;
+
+    for (const { task, metadata } of runs) {
+      const name = task.name ?? "";
+      const successorName = getRecurrenceSuccessorName(
+        name.split("/").pop() ?? name,
+        metadata,
+        timestampToDate(task.scheduleTime) ?? new Date(),
+      );
+
+      if (successorName) {
+        try {
+          await tasksClient.createTask({
+            parent,
+            task: {
+              name: getTaskPath(queueName, successorName),
+              scheduleTime: task.scheduleTime,
+              httpRequest: { ...task.httpRequest, body: createMarkerBody() },
+            },
+          });
+        } catch (error) {
+          if (!isAlreadyExistsError(error)) {
+            throw error;
+          }
+
+          // The run scheduled its successor after it was listed
+          if (await deleteRun(getTaskPath(queueName, successorName))) {
+            cancelledCount++;
+          }
+        }
+      }
+
+      if (await deleteTask(name)) {
+        cancelledCount++;
+      }
+    }
+
+    return cancelledCount;
+  }
+
+  return { getTask, cancelTask, cancelRecurring };
+}
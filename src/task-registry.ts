@@ -1,7 +1,16 @@
-import type { TaskSchedulerOptions } from "./types";
+import type { z } from "zod";
+import type { TaskSchedulerOptions, TaskSchemaVersion } from "./types";
 
-/** Configuration for tasks that only contains scheduler options */
-export type TaskConfig = TaskSchedulerOptions;
+/**
+ * Configuration for tasks that contains the scheduler options, the previous
+ * schema versions and the output schema. The registry holds the options of
+ * every queue, so the payload type of their deduplicationKey is erased like in
+ * TaskDefinition.
+ */
+export type TaskConfig = TaskSchedulerOptions<never> & {
+  versions?: readonly TaskSchemaVersion[];
+  output?: z.ZodType;
+};
 
 /**
  * Creates a new queue registry instance
@@ -15,3 +24,27 @@ export function createTaskRegistry() {
 
 /** Type definition for a task registry */
 export type TaskRegistry = ReturnType<typeof createTaskRegistry>;
+
+/**
+ * Returns the project and region of a queue, which are the defaults unless the
+ * task definition overrides them
+ *
+ * @param taskRegistry - Registry containing the task configurations
+ * @param queueName - Name of the queue
+ * @param projectId - Default GCP project ID
+ * @param region - Default GCP region
+ * @returns The project ID and region of the queue
+ */
+export function getQueueLocation(
+  taskRegistry: TaskRegistry,
+  queueName: string,
+  projectId: string,
+  region: string,
+) {
+  const taskConfig = taskRegistry.get(queueName);
+
+  return {
+    projectId: taskConfig?.projectId ?? projectId,
+    region: taskConfig?.region ?? region,
+  };
+}
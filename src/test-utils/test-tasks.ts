@@ -0,0 +1,43 @@
+import { vi } from "vitest";
+import { createTypedTasks } from "../factory";
+import {
+  createLocalTasksClient,
+  type LocalTasksClient,
+} from "../local-tasks-client";
+import type { TaskDefinitionRecord } from "../types";
+
+/** Options of createTypedTasks that the tests choose themselves */
+type TestTasksOptions<TaskDefs extends TaskDefinitionRecord<string>> = Omit<
+  Parameters<typeof createTypedTasks<TaskDefs>>[0],
+  "client" | "definitions" | "projectId" | "region"
+> & {
+  /** The local tasks client, to share it between deployments in a test */
+  client?: LocalTasksClient;
+};
+
+/**
+ * Creates typed tasks on a local tasks client for a test, in a demo project and
+ * with a logger that does not print
+ *
+ * @param definitions - The task definitions of the test
+ * @param options - The local tasks client and other options of createTypedTasks
+ * @returns The local tasks client and the typed tasks
+ */
+export function createTestTasks<TaskDefs extends TaskDefinitionRecord<string>>(
+  definitions: TaskDefs,
+  {
+    client = createLocalTasksClient(),
+    ...options
+  }: TestTasksOptions<TaskDefs> = {},
+) {
+  const tasks = createTypedTasks({
+    client,
+    definitions,
+    projectId: "demo-project",
+    region: "us-central1",
+    logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+    ...options,
+  });
+
+  return { client, tasks };
+}
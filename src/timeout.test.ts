@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { TaskTimeoutError } from "./errors";
+import { createMemoryIdempotencyStore } from "./idempotency";
+import { createTestTasks } from "./test-utils/test-tasks";
+import type { IdempotencyStore, TaskHandlerOptions } from "./types";
+
+function setup(
+  options?: TaskHandlerOptions,
+  idempotencyStore?: IdempotencyStore,
+) {
+  const { client, tasks } = createTestTasks(
+    { exportReport: z.object({ reportId: z.string() }) },
+    { options, idempotencyStore },
+  );
+
+  return {
+    client,
+    tasks,
+    schedule: () => tasks.createScheduler("exportReport")({ reportId: "r1" }),
+  };
+}
+
+describe("handler timeouts", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(1_700_000_000_000);
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("aborts the signal before the timeout and retries the task", async () => {
+    const { client, tasks, schedule } = setup();
+    const abortedAt: number[] = [];
+
+    tasks.createHandler({
+      queueName: "exportReport",
+      timeoutMs: 1000,
+      handler: (_payload, { signal }) => {
+        signal.addEventListener("abort", () => abortedAt.push(Date.now()));
+        return new Promise(() => undefined);
+      },
+    });
+
+    await schedule();
+    const run = client.runDueTasks();
+    await vi.advanceTimersByTimeAsync(1000);
+    await run;
+
+    expect(abortedAt).toEqual([1_700_000_000_900]);
+    expect(client.getDispatches()).toMatchObject([
+      {
+        status: "retry",
+        error: {
+          name: "TaskTimeoutError",
+          message: "The handler for queue exportReport timed out after 1000 ms",
+        },
+      },
+    ]);
+  });
+
+  it("lets the handler stop with the reason of the signal", async () => {
+    const { client, tasks, schedule } = setup({ timeoutSeconds: 60 });
+    const exportedPages: number[] = [];
+    let checkpoint = 0;
+
+    tasks.createHandler({
+      queueName: "exportReport",
+      handler: async (_payload, { signal }) => {
+        for (let page = checkpoint + 1; page <= 8; page++) {
+          signal.throwIfAborted();
+          await new Promise((resolve) => setTimeout(resolve, 10_000));
+          exportedPages.push(page);
+          checkpoint = page;
+        }
+      },
+    });
+
+    await schedule();
+    const run = client.runDueTasks();
+    await vi.advanceTimersByTimeAsync(80_000);
+    await run;
+
+    // The function times out after 60 seconds, and the signal fires 10 before
+    expect(exportedPages).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+    expect(client.getDispatches()[0]?.error).toBeInstanceOf(TaskTimeoutError);
+    expect(client.getDispatches()).toMatchObject([
+      { status: "retry", error: { timeoutMs: 55_000 } },
+      { status: "success" },
+    ]);
+  });
+
+  it("does not abort handlers that finish in time", async () => {
+    const { client, tasks, schedule } = setup();
+    let signal: AbortSignal | undefined;
+
+    tasks.createHandler({
+      queueName: "exportReport",
+      timeoutMs: 1000,
+      handler: async (_payload, metadata) => {
+        signal = metadata.signal;
+      },
+    });
+
+    await schedule();
+    await client.runDueTasks();
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(signal?.aborted).toBe(false);
+    expect(client.getDispatches()).toMatchObject([{ status: "success" }]);
+  });
+
+  it("keeps the idempotency claim of a handler that timed out", async () => {
+    const idempotencyStore = createMemoryIdempotencyStore();
+    const { client, tasks, schedule } = setup(
+      { timeoutSeconds: 60 },
+      idempotencyStore,
+    );
+    const release = vi.spyOn(idempotencyStore, "release");
+    const handler = vi.fn(() => new Promise<void>(() => undefined));
+
+    tasks.createHandler({
+      queueName: "exportReport",
+      timeoutMs: 1000,
+      idempotency: {},
+      handler,
+    });
+
+    await schedule();
+    const run = client.runDueTasks();
+    await vi.advanceTimersByTimeAsync(1000);
+    await run;
+
+    // The handler can still be running, so the retry waits for the lock
+    expect(release).not.toHaveBeenCalled();
+    expect(
+      await idempotencyStore.claim(
+        `exportReport/${client.getDispatches()[0]?.taskId}`,
+        { lockTimeoutSeconds: 60 },
+      ),
+    ).toBe("locked");
+  });
+
+  it("rejects a timeout that is not positive", () => {
+    const { tasks } = setup();
+
+    expect(() =>
+      tasks.createHandler({
+        queueName: "exportReport",
+        timeoutMs: 0,
+        handler: () => Promise.resolve(),
+      }),
+    ).toThrow("must be a positive number");
+  });
+});
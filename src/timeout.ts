@@ -0,0 +1,64 @@
+import { abortSignalLeadMs, functionTimeoutMarginMs } from "./constants";
+import { TaskTimeoutError } from "./errors";
+
+/** A running deadline of a handler, see startHandlerDeadline */
+export type HandlerDeadline = {
+  /** Rejects with a TaskTimeoutError when the handler runs out of time */
+  expired: Promise<never>;
+  /** Stops the timers, once the task is handled */
+  clear: () => void;
+};
+
+/**
+ * Starts the deadline of a dispatch. The handler is allowed to run until its
+ * timeoutMs, or until shortly before the function times out, whichever comes
+ * first. The abort signal fires a little earlier, so the handler can stop and
+ * save its progress.
+ *
+ * @param controller - The controller of the abort signal of the handler
+ * @param queueName - Name of the queue of the handler
+ * @param startedAt - The time the dispatch started
+ * @param options - The timeouts of the handler and its function
+ * @param options.timeoutMs - The timeoutMs of the handler
+ * @param options.timeoutSeconds - The timeoutSeconds of the function
+ * @returns The deadline, which has to be cleared
+ */
+export function startHandlerDeadline(
+  controller: AbortController,
+  queueName: string,
+  startedAt: Date,
+  {
+    timeoutMs = Infinity,
+    timeoutSeconds,
+  }: { timeoutMs?: number; timeoutSeconds: number },
+): HandlerDeadline {
+  const allowedMs = Math.max(
+    0,
+    Math.min(timeoutMs, timeoutSeconds * 1000 - functionTimeoutMarginMs),
+  );
+  const remainingMs = allowedMs - (Date.now() - startedAt.getTime());
+  const error = new TaskTimeoutError(queueName, allowedMs);
+
+  // The signal passes the timeout error, so throwIfAborted() throws it
+  const abortTimer = setTimeout(
+    () => controller.abort(error),
+    Math.max(0, remainingMs - Math.min(abortSignalLeadMs, allowedMs / 10)),
+  );
+
+  let expireTimer: NodeJS.Timeout | undefined;
+
+  const expired = new Promise<never>((_resolve, reject) => {
+    expireTimer = setTimeout(() => reject(error), Math.max(0, remainingMs));
+  });
+
+  // Middleware can still be running when the deadline expires
+  expired.catch(() => undefined);
+
+  return {
+    expired,
+    clear: () => {
+      clearTimeout(abortTimer);
+      clearTimeout(expireTimer);
+    },
+  };
+}
@@ -1,5 +1,7 @@
+import type { protos } from "@google-cloud/tasks";
 import type { MemoryOption } from "firebase-functions";
 import type {
+  AuthData,
   RateLimits,
   RetryConfig,
   TaskQueueOptions,
@@ -11,6 +13,51 @@ export type TaskHandlerFunction = ReturnType<
   typeof import("firebase-functions/tasks").onTaskDispatched
 >;
 
+/**
+ * The subset of the Google Cloud Tasks client API that typed-tasks depends on.
+ * Both the CloudTasksClient and the local tasks client satisfy this type.
+ */
+export type TasksClient = {
+  queuePath: (project: string, location: string, queue: string) => string;
+  taskPath: (
+    project: string,
+    location: string,
+    queue: string,
+    task: string,
+  ) => string;
+  createTask: (
+    request: protos.google.cloud.tasks.v2.ICreateTaskRequest,
+  ) => Promise<[protos.google.cloud.tasks.v2.ITask, ...unknown[]]>;
+  locationPath: (project: string, location: string) => string;
+  getTask: (
+    request: protos.google.cloud.tasks.v2.IGetTaskRequest,
+  ) => Promise<[protos.google.cloud.tasks.v2.ITask, ...unknown[]]>;
+  deleteTask: (
+    request: protos.google.cloud.tasks.v2.IDeleteTaskRequest,
+  ) => Promise<unknown>;
+  getQueue: (
+    request: protos.google.cloud.tasks.v2.IGetQueueRequest,
+  ) => Promise<[protos.google.cloud.tasks.v2.IQueue, ...unknown[]]>;
+  createQueue: (
+    request: protos.google.cloud.tasks.v2.ICreateQueueRequest,
+  ) => Promise<[protos.google.cloud.tasks.v2.IQueue, ...unknown[]]>;
+  updateQueue: (
+    request: protos.google.cloud.tasks.v2.IUpdateQueueRequest,
+  ) => Promise<[protos.google.cloud.tasks.v2.IQueue, ...unknown[]]>;
+  pauseQueue: (
+    request: protos.google.cloud.tasks.v2.IPauseQueueRequest,
+  ) => Promise<[protos.google.cloud.tasks.v2.IQueue, ...unknown[]]>;
+  resumeQueue: (
+    request: protos.google.cloud.tasks.v2.IResumeQueueRequest,
+  ) => Promise<[protos.google.cloud.tasks.v2.IQueue, ...unknown[]]>;
+  purgeQueue: (
+    request: protos.google.cloud.tasks.v2.IPurgeQueueRequest,
+  ) => Promise<[protos.google.cloud.tasks.v2.IQueue, ...unknown[]]>;
+  listTasksAsync: (
+    request: protos.google.cloud.tasks.v2.IListTasksRequest,
+  ) => AsyncIterable<protos.google.cloud.tasks.v2.ITask>;
+};
+
 /** Error message for queue names with invalid format */
 export type QueueNameErrorMessage =
   "Error: Queue names must be camelCase. Underscores (_) are not allowed by GCP Cloud Tasks, and hyphens (-) cannot be used in JavaScript variable names.";
@@ -30,11 +77,119 @@ export type ValidateQueueName<S extends string> =
 /** Record of schema types for each task */
 export type SchemaRecord = Record<string, z.ZodType>;
 
+/**
+ * Where to send tasks that can not be processed:
+ *
+ * - QueueName: schedule the DeadLetterEntry on another queue from the same
+ *   definitions, which should use deadLetterEntrySchema as its schema
+ * - Sink: pass the DeadLetterEntry to a function, for example to store it in a
+ *   database
+ */
+export type DeadLetterConfig =
+  | { queueName: string }
+  | { sink: (entry: DeadLetterEntry) => Promise<void> };
+
+/** A task that could not be processed, with the original payload and error */
+export type DeadLetterEntry = {
+  /** Name of the queue the task was dispatched on */
+  queueName: string;
+  /** The original payload, which is not validated for validation failures */
+  payload: unknown;
+  /**
+   * - Validation: the payload did not match the schema
+   * - Exhausted: the handler failed on its last attempt
+   * - Permanent: the handler threw a PermanentTaskError
+   */
+  reason: "validation" | "exhausted" | "permanent";
+  error: {
+    name: string;
+    message: string;
+    stack?: string;
+    /** The Zod issues, for validation failures */
+    issues?: unknown[];
+  };
+  metadata: {
+    taskId: string;
+    retryCount: number;
+    executionCount: number;
+    /** ISO string of the time the task was scheduled to run */
+    scheduledTime?: string;
+  };
+  /** ISO string of the time the task was dead-lettered */
+  deadLetteredAt: string;
+};
+
+/** Options for replaying a dead-lettered task */
+export type DeadLetterReplayOptions<Payload> = TaskScheduleOptions & {
+  /**
+   * Payload to schedule instead of the original one, for example a corrected
+   * version of a payload that failed validation
+   */
+  payload?: Payload;
+};
+
+/** The values that a target URL resolver can use */
+export type TaskTargetContext = {
+  queueName: string;
+  projectId: string;
+  region: string;
+};
+
+/** How Cloud Tasks reaches and authenticates with the function of a queue */
+export type TaskTargetOptions = {
+  /**
+   * Resolves the URL that Cloud Tasks sends the task to, for example the
+   * `run.app` URL of a v2 function or a custom domain. Defaults to
+   * `https://{region}-{projectId}.cloudfunctions.net/{queueName}`.
+   */
+  resolveUrl?: (context: TaskTargetContext) => string;
+  /**
+   * Service account used to create the OIDC token. Defaults to the App Engine
+   * default service account `{projectId}@appspot.gserviceaccount.com`.
+   */
+  serviceAccountEmail?: string;
+  /** Audience of the OIDC token. Cloud Tasks uses the target URL by default. */
+  audience?: string;
+};
+
+/**
+ * Selects the part of the payload that identifies a task for deduplication,
+ * either as a list of top-level fields or as a function that returns the key
+ */
+export type DeduplicationKey<Payload = unknown> =
+  | readonly (keyof Payload & string)[]
+  | ((payload: Payload) => unknown);
+
+/** Hash algorithm for task names that are generated from the payload */
+export type DeduplicationHashAlgorithm = "md5" | "sha1" | "sha256";
+
+/**
+ * How the payload is serialized before it is hashed into a task name:
+ *
+ * - Legacy: JSON.stringify, so the name depends on the order of the keys
+ * - Canonical: JSON with the object keys sorted
+ */
+export type DeduplicationHashFormat = "legacy" | "canonical";
+
+/**
+ * How tasks with the same name are handled within a deduplication window. A
+ * window starts at the first call and lasts the full window from there.
+ *
+ * - Trailing: runs once at the end of the window after the first call, with the
+ *   first payload, like a debounce
+ * - Leading: runs the first call immediately and skips the others until the
+ *   window ends
+ * - Throttle: runs at most once per window, at the end of the window, with the
+ *   payload of the latest call. Requires a deduplicationKey.
+ */
+export type DeduplicationMode = "trailing" | "leading" | "throttle";
+
 /**
  * Options for configuring the scheduler - these are options that apply to how
- * the task is scheduled, not how it's executed
+ * the task is scheduled, not how it's executed. The payload type is only known
+ * for definitions created with defineTask, which types the deduplicationKey.
  */
-export type TaskSchedulerOptions = {
+export type TaskSchedulerOptions<Payload = unknown> = {
   /**
    * When specified, the task will use a time window-based deduplication
    * strategy. Tasks with the same name will be deduplicated within the
@@ -43,6 +198,13 @@ export type TaskSchedulerOptions = {
    */
   deduplicationWindowSeconds?: number;
 
+  /**
+   * How calls within a deduplication window are handled, defaults to
+   * "trailing". Only applies when deduplicationWindowSeconds is set. The
+   * "throttle" mode requires a deduplicationKey.
+   */
+  deduplicationMode?: DeduplicationMode;
+
   /**
    * When true, the task will automatically derive a taskName using an MD5 hash
    * of the payload data, eliminating the need to explicitly provide a taskName.
@@ -50,6 +212,92 @@ export type TaskSchedulerOptions = {
    * implicitly true even if not specified.
    */
   useDeduplication?: boolean;
+
+  /**
+   * The part of the payload that the task name is generated from, instead of
+   * the whole payload. For example `["userId"]` schedules one task per user.
+   * Implicitly enables useDeduplication, and always uses the canonical hash
+   * format.
+   */
+  deduplicationKey?: DeduplicationKey<Payload>;
+
+  /** Hash algorithm for generated task names, defaults to "md5" */
+  deduplicationHashAlgorithm?: DeduplicationHashAlgorithm;
+
+  /**
+   * Serialization of the payload for generated task names. Defaults to
+   * "legacy", which keeps the names of existing tasks. Switching to "canonical"
+   * changes the generated names, so tasks that are already scheduled are not
+   * deduplicated against new ones.
+   */
+  deduplicationHashFormat?: DeduplicationHashFormat;
+
+  /**
+   * Opt-in dead-letter handling. When set, tasks with a payload that fails
+   * validation, and tasks that fail on their last attempt, are sent to the
+   * configured queue or sink instead of being dropped.
+   */
+  deadLetter?: DeadLetterConfig;
+
+  /**
+   * Target URL and OIDC settings for this queue, which take precedence over the
+   * target passed to createTypedTasks
+   */
+  target?: TaskTargetOptions;
+
+  /**
+   * Region of the queue and its handler function, which takes precedence over
+   * the region passed to createTypedTasks
+   */
+  region?: string;
+
+  /**
+   * Project of the queue and its target function, for tasks that are handled in
+   * another project. Defaults to the projectId passed to createTypedTasks.
+   */
+  projectId?: string;
+
+  /**
+   * Validation of payloads before they are scheduled, which takes precedence
+   * over the validateOnSchedule option of createTypedTasks
+   */
+  validateOnSchedule?: ScheduleValidationMode;
+
+  /**
+   * What to do with tasks that are scheduled more than 30 days ahead, which is
+   * the limit of Cloud Tasks. Defaults to "reject", which throws a
+   * TaskScheduleError. With "chain", the task is scheduled at the limit, and
+   * the handler schedules it again until it is due.
+   */
+  scheduleBeyondLimit?: "reject" | "chain";
+
+  /**
+   * Compression of the payload in the task body. With "gzip", payloads of at
+   * least compressionThresholdBytes are gzipped, and the handler decompresses
+   * them before validation. Defaults to "none".
+   */
+  compression?: "none" | "gzip";
+
+  /**
+   * Size in bytes of the JSON payload from which it is compressed. Defaults to
+   * 1024.
+   */
+  compressionThresholdBytes?: number;
+
+  /**
+   * Size in bytes of the task body above which the payload is stored in the
+   * blobStore of createTypedTasks, so that the task only holds a reference to
+   * it. Defaults to the limit of Cloud Tasks, so that only payloads that do not
+   * fit in a task are offloaded.
+   */
+  offloadThresholdBytes?: number;
+
+  /**
+   * Encryption of the payloads of this queue, which takes precedence over the
+   * encryption option of createTypedTasks. Set to false to send the payloads of
+   * this queue unencrypted.
+   */
+  encryption?: TaskEncryptionOptions | false;
 };
 
 /**
@@ -83,19 +331,69 @@ export type ExtractSchema<T> = T extends z.ZodType
     ? T["schema"]
     : never;
 
+/** Utility type to extract the output schema from TaskDefinition */
+export type ExtractOutputSchema<T> = T extends {
+  output?: infer Output extends z.ZodType | undefined;
+}
+  ? [NonNullable<Output>] extends [never]
+    ? undefined
+    : NonNullable<Output>
+  : undefined;
+
+/**
+ * A previous version of a task schema, with the migration of its payloads to
+ * the next version. Use defineSchemaVersion to get a typed migration.
+ */
+export type TaskSchemaVersion<Schema extends z.ZodType = z.ZodType> = {
+  schema: Schema;
+  /** Converts a validated payload of this version to the next version */
+  migrate(payload: z.output<Schema>): unknown;
+};
+
 /**
  * Task definition can be either:
  *
  * 1. A direct Zod schema
- * 2. An object with schema and optional scheduler options
+ * 2. An object with schema, optional scheduler options, and optional previous
+ *    schema versions
  */
 export type TaskDefinition =
   | z.ZodType
   | {
       schema: z.ZodType;
-      options?: TaskSchedulerOptions;
+      /**
+       * The options of any payload type. A deduplicationKey function of a never
+       * payload accepts the functions of every payload, which defineTask types
+       * by the schema.
+       */
+      options?: TaskSchedulerOptions<never>;
+      /**
+       * Previous versions of the schema, oldest first. Tasks are scheduled with
+       * the current version, and the handler migrates payloads of older
+       * versions before validating them against the current schema.
+       */
+      versions?: readonly TaskSchemaVersion[];
+      /**
+       * Schema of the value that the handler returns, which a workflow passes
+       * to its next step
+       */
+      output?: z.ZodType;
     };
 
+/**
+ * The object form of a task definition, with the scheduler options typed by the
+ * schema. Created by defineTask.
+ */
+export type TypedTaskDefinition<
+  Schema extends z.ZodType,
+  Output extends z.ZodType | undefined = undefined,
+> = {
+  schema: Schema;
+  options?: TaskSchedulerOptions<z.input<Schema>>;
+  versions?: readonly TaskSchemaVersion[];
+  output?: Output;
+};
+
 /** Record of task definitions for each task with enforced camelCase keys */
 export type TaskDefinitionRecord<QueueName extends string> = {
   [K in QueueName]: K extends
@@ -115,12 +413,740 @@ export type TaskPayload<
   T extends keyof Defs & string,
 > = z.infer<ExtractSchema<Defs[T]>>;
 
+/**
+ * Type to extract the input type for a given task using the task definition's
+ * schema. This is what the scheduler accepts, so that transforms and defaults
+ * are applied in the handler.
+ */
+export type TaskInput<
+  Defs extends TaskDefinitionRecord<string>,
+  T extends keyof Defs & string,
+> = z.input<ExtractSchema<Defs[T]>>;
+
+/**
+ * Type of the value that the handler of a task returns, which is the input of
+ * its output schema, or void for tasks without an output schema
+ */
+export type TaskResult<
+  Defs extends TaskDefinitionRecord<string>,
+  T extends keyof Defs & string,
+> =
+  ExtractOutputSchema<Defs[T]> extends z.ZodType
+    ? z.input<ExtractOutputSchema<Defs[T]>>
+    : void;
+
+/**
+ * Type of the output of a task as the next step of a workflow receives it,
+ * parsed by its output schema
+ */
+export type TaskOutput<
+  Defs extends TaskDefinitionRecord<string>,
+  T extends keyof Defs & string,
+> =
+  ExtractOutputSchema<Defs[T]> extends z.ZodType
+    ? z.output<ExtractOutputSchema<Defs[T]>>
+    : undefined;
+
+/**
+ * How the scheduler validates payloads before creating a task:
+ *
+ * - Off: payloads are only validated in the handler
+ * - Warn: invalid payloads are logged, and scheduled anyway
+ * - Throw: invalid payloads are rejected with a TaskValidationError
+ */
+export type ScheduleValidationMode = "off" | "warn" | "throw";
+
 /** Options for scheduling a task */
 export type TaskScheduleOptions = {
   /** Optional name for the task, enabling deduplication */
   taskName?: string;
   /** Optional delay in seconds before the task should be executed */
   delaySeconds?: number;
+  /**
+   * Optional time at which the task should be executed. It can not be combined
+   * with delaySeconds.
+   */
+  runAt?: Date;
+};
+
+/** Options for scheduling a recurring task */
+export type RecurringScheduleOptions = {
+  /**
+   * Cron expression with five fields (minute, hour, day of month, month and day
+   * of week), evaluated in UTC
+   */
+  cron: string;
+};
+
+/**
+ * Identifies a scheduled task, either by its name or by the payload it was
+ * scheduled with. Short names and payloads are resolved with the deduplication
+ * rules of the queue, so for queues with a deduplication window they refer to
+ * the task of the current time window. A full resource name, like the taskName
+ * of a ScheduleResult, is used as is.
+ */
+export type TaskLocator<Payload> = { taskName: string } | { payload: Payload };
+
+/**
+ * A task as stored in Cloud Tasks, with the payload decoded from the body and
+ * validated against the schema of the queue
+ */
+export type TaskView<Payload> = {
+  /** Full resource name of the task */
+  taskName: string;
+  /** Short name of the task */
+  taskId: string;
+  queueName: string;
+  /** The time at which the task is scheduled to run */
+  scheduleTime?: Date;
+  /** The time at which the task was created */
+  createTime?: Date;
+  /** Number of attempts that were dispatched */
+  dispatchCount: number;
+  /** Number of attempts that received a response */
+  responseCount: number;
+} & (
+  | { isValid: true; isDecodable: true; payload: Payload }
+  | {
+      /** The payload does not match the current schema of the queue */
+      isValid: false;
+      isDecodable: true;
+      payload: unknown;
+      error: z.ZodError;
+    }
+  | {
+      /**
+       * The payload could not be decoded, for example because its blob or
+       * encryption key is missing. Only listTasks returns these views, getTask
+       * throws the error instead.
+       */
+      isValid: false;
+      isDecodable: false;
+      payload: undefined;
+      error: Error;
+    }
+);
+
+/** Result of scheduling a task */
+export type ScheduleResult = {
+  /**
+   * - Created: the task was added to the queue
+   * - Deduplicated: a task with the same name already existed (ALREADY_EXISTS),
+   *   so no new task was added
+   */
+  outcome: "created" | "deduplicated";
+  /**
+   * Full resource name of the task, for example
+   * `projects/my-project/locations/us-central1/queues/myQueue/tasks/abc`. For
+   * tasks without an explicit or generated name, this is the name assigned by
+   * Cloud Tasks.
+   */
+  taskName: string;
+  /**
+   * The time at which the task is scheduled to run. For deduplicated tasks this
+   * is the time that was requested, not the time of the existing task. For
+   * tasks that are chained across the schedule limit, this is the time the task
+   * runs, not the time of the first link in the chain.
+   */
+  scheduleTime: Date;
+  /** Number of createTask attempts that were made, including retries */
+  attempts: number;
+  /** Size in bytes of the base64 encoded task body */
+  bodySizeBytes: number;
+};
+
+/**
+ * Status of a task in a group:
+ *
+ * - Succeeded: the handler completed
+ * - Failed: the payload was invalid, the handler failed on its last attempt or
+ *   the task could not be scheduled
+ */
+export type GroupTaskStatus = "succeeded" | "failed";
+
+/** Identifies the group that a task belongs to */
+export type GroupMetadata = {
+  groupId: string;
+  /** Position of the task in the group */
+  index: number;
+};
+
+/** The state of a group of tasks, as kept by a GroupStore */
+export type GroupState = {
+  groupId: string;
+  /** Number of tasks in the group */
+  total: number;
+  /** Status of each task that finished, by its index in the group */
+  results: Record<number, GroupTaskStatus>;
+  /** The task to schedule when all tasks of the group finished */
+  onComplete: { queueName: string; payload: unknown };
+  /** True after the completion task was scheduled */
+  isCompleted: boolean;
+};
+
+/**
+ * Stores the state of groups of tasks, so that the handlers of the tasks can
+ * tell when the group finished. Tasks finish concurrently, possibly in
+ * different instances, so a production store needs shared storage with atomic
+ * updates, like a Firestore transaction.
+ */
+export type GroupStore = {
+  /**
+   * Saves the state of a new group. When the group already exists, its state is
+   * kept, so scheduling a group again does not reset it.
+   */
+  createGroup: (state: GroupState) => Promise<void>;
+  /**
+   * Atomically records the status of a task and returns the updated state, or
+   * undefined if the group does not exist. Recording the same task again
+   * replaces its status.
+   */
+  recordResult: (
+    groupId: string,
+    index: number,
+    status: GroupTaskStatus,
+  ) => Promise<GroupState | undefined>;
+  /** Marks the group as completed, after its completion task was scheduled */
+  markCompleted: (groupId: string) => Promise<void>;
+};
+
+/** Passed to the completion task of a group, in its dispatch metadata */
+export type GroupSummary = {
+  groupId: string;
+  /** Number of tasks in the group */
+  total: number;
+  /** Number of tasks that succeeded */
+  succeeded: number;
+  /** Number of tasks that failed */
+  failed: number;
+  /** Positions of the tasks that failed, in ascending order */
+  failedIndexes: number[];
+};
+
+/** Options for scheduling a group of tasks */
+export type GroupScheduleOptions<
+  QueueName extends string,
+  Payload,
+> = TaskBatchOptions & {
+  /**
+   * ID of the group, defaults to a random UUID. Scheduling a group again with
+   * the same ID is deduplicated.
+   */
+  groupId?: string;
+  /** The task to schedule once, when all tasks of the group finished */
+  onComplete: { queueName: QueueName; payload: Payload };
+};
+
+/** Result of scheduling a group of tasks */
+export type GroupScheduleResult<Payload> = {
+  groupId: string;
+  /**
+   * Result for each task, in the same order as the payloads. Tasks that could
+   * not be scheduled count as failed tasks of the group.
+   */
+  results: TaskBatchItemResult<Payload>[];
+};
+
+/** Identifies the workflow and step that a task belongs to */
+export type WorkflowMetadata = {
+  /** Name of the workflow */
+  name: string;
+  /** ID shared by the tasks of one run of the workflow */
+  correlationId: string;
+  /** Index of the step in the workflow, 0 for the first step */
+  step: number;
+};
+
+/** Context passed to the function that maps the output of a workflow step */
+export type WorkflowStepContext<Payload> = {
+  /** ID shared by the tasks of this run of the workflow */
+  correlationId: string;
+  /** The payload of the step that produced the output */
+  payload: Payload;
+};
+
+/** Passed to onComplete when the last step of a workflow has completed */
+export type WorkflowCompletion<Output> = {
+  workflowName: string;
+  correlationId: string;
+  /** The output of the last step */
+  output: Output;
+};
+
+/** Options for a workflow */
+export type WorkflowOptions<Output> = {
+  /**
+   * Called by the handler of the last step after it completed. When it throws,
+   * the last step is retried.
+   */
+  onComplete?: (event: WorkflowCompletion<Output>) => void | Promise<void>;
+};
+
+/** Options for starting a run of a workflow */
+export type WorkflowStartOptions = {
+  /**
+   * ID shared by the tasks of this run, defaults to a random UUID. Starting a
+   * workflow again with the same ID is deduplicated.
+   */
+  correlationId?: string;
+};
+
+/** Result of starting a run of a workflow */
+export type WorkflowStartResult = {
+  correlationId: string;
+  /** The result of scheduling the first step */
+  result: ScheduleResult;
+};
+
+/** A workflow that can be started with the payload of its first step */
+export type Workflow<Payload> = {
+  name: string;
+  /**
+   * Schedules the first step of the workflow
+   *
+   * @param payload - The payload of the first step
+   * @param options - Optional correlation ID
+   * @returns Promise that resolves with the correlation ID and the result of
+   *   scheduling the first step
+   */
+  start: (
+    payload: Payload,
+    options?: WorkflowStartOptions,
+  ) => Promise<WorkflowStartResult>;
+};
+
+/**
+ * Declares the steps of a workflow. Each step is a queue, and the output of its
+ * handler is mapped to the payload of the next step.
+ */
+export type WorkflowBuilder<
+  Defs extends TaskDefinitionRecord<string>,
+  First extends keyof Defs & string,
+  Last extends keyof Defs & string,
+> = {
+  /**
+   * Adds a step that runs after the last step completed
+   *
+   * @param queueName - The queue of the step
+   * @param mapOutput - Maps the output of the previous step to the payload of
+   *   this step
+   */
+  step: <Next extends keyof Defs & string>(
+    queueName: Next,
+    mapOutput: (
+      output: TaskOutput<Defs, Last>,
+      context: WorkflowStepContext<TaskPayload<Defs, Last>>,
+    ) => TaskInput<Defs, Next>,
+  ) => WorkflowBuilder<Defs, First, Next>;
+
+  /**
+   * Registers the workflow, so that handlers can continue it
+   *
+   * @param options - Optional completion callback
+   * @returns The workflow, to start runs of it
+   */
+  build: (
+    options?: WorkflowOptions<TaskOutput<Defs, Last>>,
+  ) => Workflow<TaskInput<Defs, First>>;
+};
+
+/** A single item to schedule with a batch scheduler */
+export type TaskBatchItem<Payload> = {
+  /** The payload data, must conform to the task's schema */
+  data: Payload;
+  /** Optional scheduling options for this item */
+  options?: TaskScheduleOptions;
+};
+
+/** Options for scheduling a batch of tasks */
+export type TaskBatchOptions = {
+  /**
+   * Maximum number of tasks that are scheduled at the same time. Defaults to
+   * 10.
+   */
+  concurrency?: number;
+};
+
+/**
+ * Result for a single item of a batch. The status is one of:
+ *
+ * - Scheduled: the task was created
+ * - Deduplicated: a task with the same name already existed (ALREADY_EXISTS)
+ * - Failed: the task could not be created after retries
+ */
+export type TaskBatchItemResult<Payload> =
+  | {
+      status: "scheduled" | "deduplicated";
+      /** Position of the item in the batch */
+      index: number;
+      item: TaskBatchItem<Payload>;
+      result: ScheduleResult;
+    }
+  | {
+      status: "failed";
+      /** Position of the item in the batch */
+      index: number;
+      item: TaskBatchItem<Payload>;
+      error: unknown;
+    };
+
+/** Options for listing the tasks of a queue */
+export type ListTasksOptions = {
+  /**
+   * Number of tasks that are fetched per request. The tasks of all pages are
+   * yielded. Defaults to the page size of Cloud Tasks.
+   */
+  pageSize?: number;
+};
+
+/** Options for synchronizing the Cloud Tasks queues with the definitions */
+export type QueueSyncOptions<QueueName extends string = string> = {
+  /**
+   * - Plan: only compare the queues with the configuration (dry-run)
+   * - Apply: also create missing queues and update queues that differ
+   *
+   * Defaults to "plan".
+   */
+  mode?: "plan" | "apply";
+  /** Limit the sync to these queues. Defaults to all queues in the definitions */
+  queueNames?: QueueName[];
+  /**
+   * Rate limits and retry config per queue, which take precedence over the
+   * global options and the options of the handler
+   */
+  queueOptions?: Partial<
+    Record<QueueName, Pick<TaskHandlerOptions, "rateLimits" | "retryConfig">>
+  >;
+};
+
+/** A single field of a queue that differs from the configuration */
+export type QueueSyncChange = {
+  /** Path of the field in the Cloud Tasks queue, like "retryConfig.minBackoff" */
+  field: string;
+  /** The current value, or undefined if the queue does not exist */
+  current: number | undefined;
+  /** The value from the configuration */
+  desired: number;
+};
+
+/**
+ * The planned or applied action for a single queue:
+ *
+ * - Create: the queue does not exist
+ * - Update: the queue exists, but some fields differ
+ * - None: the queue matches the configuration
+ * - Skip: the handler of the queue was not created in this process, so its
+ *   configuration is not known
+ */
+export type QueueSyncAction = {
+  queueName: string;
+  action: "create" | "update" | "none" | "skip";
+  changes: QueueSyncChange[];
+  /** True when the action was executed, which only happens in apply mode */
+  applied: boolean;
+};
+
+/** Result of synchronizing the queues, with an action for each queue */
+export type QueueSyncResult = {
+  mode: "plan" | "apply";
+  actions: QueueSyncAction[];
+};
+
+/**
+ * Logger used for the messages of typed-tasks. The console is used by default,
+ * but any logger with info, warn and error methods can be passed, like the
+ * logger from firebase-functions.
+ */
+export type TaskLogger = {
+  info: (...args: unknown[]) => void;
+  warn: (...args: unknown[]) => void;
+  error: (...args: unknown[]) => void;
+};
+
+/**
+ * Base of all hook events. The queue name discriminates the payload type, so
+ * narrowing on queueName gives a typed payload.
+ */
+type TaskEvent<Defs extends TaskDefinitionRecord<string>, Extra> = {
+  [K in keyof Defs & string]: {
+    queueName: K;
+    payload: TaskPayload<Defs, K>;
+  } & Extra;
+}[keyof Defs & string];
+
+/** Lifecycle hooks for scheduling and handling tasks */
+export type TaskHooks<
+  Defs extends TaskDefinitionRecord<string> = TaskDefinitionRecord<string>,
+> = {
+  /** Called after a task was created */
+  onSchedule?: (
+    event: TaskEvent<Defs, { result: ScheduleResult; durationMs: number }>,
+  ) => void | Promise<void>;
+
+  /** Called when a task already existed (ALREADY_EXISTS) */
+  onDeduplicated?: (
+    event: TaskEvent<Defs, { result: ScheduleResult; durationMs: number }>,
+  ) => void | Promise<void>;
+
+  /** Called when a createTask attempt failed and will be retried */
+  onScheduleRetry?: (
+    event: TaskEvent<
+      Defs,
+      {
+        error: unknown;
+        attemptNumber: number;
+        retriesLeft: number;
+        durationMs: number;
+      }
+    >,
+  ) => void | Promise<void>;
+
+  /** Called when a task could not be scheduled after all retries */
+  onScheduleFailed?: (
+    event: TaskEvent<
+      Defs,
+      { error: unknown; attempts: number; durationMs: number }
+    >,
+  ) => void | Promise<void>;
+
+  /** Called before the handler runs with a validated payload */
+  onHandlerStart?: (
+    event: TaskEvent<Defs, { startedAt: Date }>,
+  ) => void | Promise<void>;
+
+  /** Called after the handler completed */
+  onHandlerSuccess?: (
+    event: TaskEvent<Defs, { startedAt: Date; durationMs: number }>,
+  ) => void | Promise<void>;
+
+  /** Called when the handler threw an error */
+  onHandlerError?: (
+    event: TaskEvent<
+      Defs,
+      { error: unknown; startedAt: Date; durationMs: number }
+    >,
+  ) => void | Promise<void>;
+
+  /**
+   * Called when the payload of a dispatched task does not match the schema. The
+   * payload is not typed, because it failed validation.
+   */
+  onValidationFailed?: (event: {
+    queueName: keyof Defs & string;
+    payload: unknown;
+    error: z.ZodError;
+    startedAt: Date;
+    durationMs: number;
+  }) => void | Promise<void>;
+};
+
+/** Metadata about the dispatch of a task, as provided by Cloud Tasks */
+export type TaskMetadata = {
+  /**
+   * The short name of the task, or the ID generated by Cloud Tasks if the task
+   * was created without a name
+   */
+  taskId: string;
+  /** Name of the queue that dispatched the task */
+  queueName: string;
+  /**
+   * Number of times the task has been retried, 0 for the first attempt. It
+   * includes the attempts before a retry that was delayed by a
+   * RetryableTaskError.
+   */
+  retryCount: number;
+  /** Number of times the handler responded to this task before */
+  executionCount: number;
+  /**
+   * Maximum number of attempts from the retry config of the handler, or
+   * undefined when it is unlimited or not a static number
+   */
+  maxAttempts?: number;
+  /**
+   * True when this is the last attempt according to the retry config, so a
+   * failure will not be retried. Always false when the retry config has no
+   * positive maxAttempts or has a maxRetrySeconds.
+   */
+  isLastAttempt: boolean;
+  /** The time the task was scheduled to run (ETA) */
+  scheduledTime?: Date;
+  /** HTTP response code of the previous attempt */
+  previousResponse?: number;
+  /** The reason for retrying the task */
+  retryReason?: string;
+  /** The decoded OIDC token used to invoke the function */
+  auth?: AuthData;
+  /** Raw request headers */
+  headers?: Record<string, string>;
+  /** The workflow and step, for tasks that were scheduled by a workflow */
+  workflow?: WorkflowMetadata;
+  /** The group and position, for tasks that were scheduled by scheduleGroup */
+  group?: GroupMetadata;
+  /** The results of the group, for the completion task of a group */
+  groupSummary?: GroupSummary;
+  /**
+   * Aborts shortly before the handler times out, with a TaskTimeoutError as the
+   * reason. Pass it to requests, or check it between steps to stop in time.
+   */
+  signal: AbortSignal;
+};
+
+/** Context passed through the middleware chain of a handler */
+export type TaskMiddlewareContext<
+  Payload = unknown,
+  QueueName extends string = string,
+> = {
+  queueName: QueueName;
+  /** The validated payload, which is passed to the handler */
+  payload: Payload;
+  /** Metadata about the dispatch of the task */
+  metadata: TaskMetadata;
+  /** Free-form state for passing values between middleware */
+  state: Record<string, unknown>;
+};
+
+/**
+ * Middleware that wraps the execution of a handler, similar to Koa. Call `next`
+ * to continue with the next middleware and eventually the handler. Skipping
+ * `next` skips the handler.
+ */
+export type TaskMiddleware<
+  Payload = unknown,
+  QueueName extends string = string,
+> = (
+  ctx: TaskMiddlewareContext<Payload, QueueName>,
+  next: () => Promise<void>,
+) => Promise<void>;
+
+/**
+ * Middleware that applies to all handlers. The context is a union over all
+ * queues, so narrowing on `ctx.queueName` gives a typed payload.
+ */
+export type GlobalTaskMiddleware<Defs extends TaskDefinitionRecord<string>> = (
+  ctx: {
+    [K in keyof Defs & string]: TaskMiddlewareContext<TaskPayload<Defs, K>, K>;
+  }[keyof Defs & string],
+  next: () => Promise<void>,
+) => Promise<void>;
+
+/**
+ * Result of claiming an idempotency key:
+ *
+ * - Claimed: the key was free, or the lock of an earlier claim expired, so the
+ *   handler runs
+ * - Locked: another delivery of the task is being handled
+ * - Completed: a delivery of the task completed before
+ */
+export type IdempotencyClaimResult = "claimed" | "locked" | "completed";
+
+/**
+ * Stores the idempotency keys of handled tasks. Deliveries of a task can run
+ * concurrently, on different instances, so a production store needs shared
+ * storage with atomic updates, like a Firestore transaction.
+ */
+export type IdempotencyStore = {
+  /**
+   * Atomically claims a key, unless it was completed or is locked by another
+   * claim that has not expired
+   */
+  claim: (
+    key: string,
+    options: { lockTimeoutSeconds: number },
+  ) => Promise<IdempotencyClaimResult>;
+  /** Records that the handler completed, keeping the key for ttlSeconds */
+  complete: (key: string, options: { ttlSeconds: number }) => Promise<void>;
+  /** Removes the claim after the handler failed, so a retry can claim it */
+  release: (key: string) => Promise<void>;
+};
+
+/**
+ * A payload converted to a JSON value, with the metadata that is needed to
+ * restore the values that JSON can not represent. The shape matches the result
+ * of superjson.serialize.
+ */
+export type SerializedPayload = {
+  /** The JSON value that is sent in the task body */
+  json: unknown;
+  /** Type information, or undefined when the JSON value is the payload */
+  meta?: unknown;
+};
+
+/**
+ * Converts payloads to JSON values and back. The scheduler serializes the
+ * payload before it is sent, and the handler deserializes it before it is
+ * validated. The meta is kept in the envelope next to the payload.
+ */
+export type TaskSerializer = {
+  serialize: (payload: unknown) => SerializedPayload;
+  deserialize: (serialized: SerializedPayload) => unknown;
+};
+
+/** A key for AES-256-GCM encryption, with the ID that is stored with the task */
+export type EncryptionKey = {
+  keyId: string;
+  /** The 32 byte key */
+  key: Buffer;
+};
+
+/**
+ * Provides the keys for payload encryption. New payloads are encrypted with the
+ * current key, and the ID of the key is stored with the task, so that keys can
+ * be rotated while older tasks are pending.
+ */
+export type EncryptionKeyProvider = {
+  /** Returns the key to encrypt new payloads with */
+  getCurrentKey: () => Promise<EncryptionKey>;
+  /** Returns the key with the ID, or undefined if it is not available */
+  getKey: (keyId: string) => Promise<Buffer | undefined>;
+};
+
+/** Options for encrypting payloads before they are sent to Cloud Tasks */
+export type TaskEncryptionOptions = {
+  keyProvider: EncryptionKeyProvider;
+};
+
+/**
+ * Stores the payloads that are too large for a task. The key is unique per
+ * scheduled task. Typed-tasks only deletes the payload of a task that was not
+ * created. A handled task keeps its payload, because Cloud Tasks can deliver it
+ * again, so a production store should expire them, like a Cloud Storage bucket
+ * with a lifecycle rule.
+ */
+export type BlobStore = {
+  /** Stores the encoded payload under the key */
+  put: (key: string, data: Buffer) => Promise<void>;
+  /** Returns the encoded payload, or undefined if the key does not exist */
+  get: (key: string) => Promise<Buffer | undefined>;
+  /** Deletes the encoded payload, and resolves if the key does not exist */
+  delete: (key: string) => Promise<void>;
+};
+
+/** Options for guarding a handler against duplicate deliveries */
+export type IdempotencyOptions<Payload = unknown> = {
+  /**
+   * What identifies a delivery as a duplicate:
+   *
+   * - TaskName: the task name, or the ID generated by Cloud Tasks (default)
+   * - Payload: a hash of the payload, with sorted keys
+   * - A function that returns a key for the payload and metadata
+   *
+   * Keys are scoped to the queue.
+   */
+  key?:
+    | "taskName"
+    | "payload"
+    | ((payload: Payload, metadata: TaskMetadata) => string);
+  /**
+   * How long a completed key is kept, so that later deliveries are skipped.
+   * Defaults to 1 day.
+   */
+  ttlSeconds?: number;
+  /**
+   * How long a claim blocks other deliveries, after which a delivery that
+   * crashed without releasing it can be retried. Defaults to the timeoutSeconds
+   * of the handler.
+   */
+  lockTimeoutSeconds?: number;
 };
 
 /** Type for the object-based handler parameters */
@@ -129,8 +1155,24 @@ export type TaskHandlerConfig<Schema extends z.ZodType> = {
   queueName: string;
   /** Handler-specific options (memory, timeout, etc.) */
   options?: TaskHandlerOptions;
-  /** Function that processes the task */
-  handler: (payload: z.infer<Schema>) => Promise<void>;
+  /**
+   * Middleware that runs after the payload is validated and before the handler,
+   * after the global middleware
+   */
+  middleware?: TaskMiddleware<z.infer<Schema>>[];
+  /**
+   * Skips deliveries of a task that was already handled, using the
+   * idempotencyStore of createTypedTasks
+   */
+  idempotency?: IdempotencyOptions<z.infer<Schema>>;
+  /**
+   * Time the handler is allowed to run, in milliseconds. The signal of the
+   * metadata aborts shortly before, and a handler that does not finish in time
+   * fails with a TaskTimeoutError.
+   */
+  timeoutMs?: number;
+  /** Function that processes the task, with the dispatch metadata */
+  handler: (payload: z.infer<Schema>, metadata: TaskMetadata) => Promise<void>;
 };
 
 /** Type definition for a typed Tasks client */
@@ -141,24 +1183,208 @@ export type TypedTasksClient<Defs extends TaskDefinitionRecord<string>> = {
    * @param queueName - The name of the queue to schedule tasks on
    * @returns A function that schedules tasks with the following parameters:
    *
-   *   - Data: The payload data that conforms to the task's schema
+   *   - Data: The payload data that conforms to the input of the task's schema
    *   - Options: Optional configuration including taskName for deduplication and
    *       delaySeconds for custom delays. When taskName is not provided and
    *       deduplication is enabled (either via useDeduplication or
    *       deduplicationWindowSeconds), a taskName will be automatically
    *       generated from the payload data using MD5 hash.
+   *
+   *   The function resolves with a ScheduleResult that tells whether the task was
+   *   created or deduplicated.
    */
   createScheduler: <T extends keyof Defs & string>(
     queueName: T,
   ) => (
-    data: z.infer<ExtractSchema<Defs[T]>>,
+    data: z.input<ExtractSchema<Defs[T]>>,
     options?: TaskScheduleOptions,
-  ) => Promise<void>;
+  ) => Promise<ScheduleResult>;
+
+  /**
+   * Creates a type-safe batch scheduler function for the specified task
+   *
+   * @param queueName - The name of the queue to schedule tasks on
+   * @returns A function that schedules an array of items, each with a payload
+   *   and optional scheduling options. The number of concurrent createTask
+   *   calls is limited by the concurrency option. It resolves with a result for
+   *   each item, in the same order as the items, and does not throw when
+   *   individual items fail.
+   */
+  createBatchScheduler: <T extends keyof Defs & string>(
+    queueName: T,
+  ) => (
+    items: TaskBatchItem<z.input<ExtractSchema<Defs[T]>>>[],
+    options?: TaskBatchOptions,
+  ) => Promise<TaskBatchItemResult<z.input<ExtractSchema<Defs[T]>>>[]>;
+
+  /**
+   * Schedules a task that runs on a cron schedule. The task is scheduled at the
+   * next time that matches the cron expression, and the handler schedules the
+   * next run with the same payload before it handles the current one.
+   * Scheduling the same payload and cron expression again is deduplicated, so
+   * it can be called on every deploy.
+   *
+   * @param queueName - The name of the queue
+   * @param payload - The payload of every run
+   * @param options - The cron expression
+   * @returns Promise that resolves with the result of scheduling the first run
+   */
+  scheduleRecurring: <T extends keyof Defs & string>(
+    queueName: T,
+    payload: z.input<ExtractSchema<Defs[T]>>,
+    options: RecurringScheduleOptions,
+  ) => Promise<ScheduleResult>;
+
+  /**
+   * Stops a recurring task by deleting its pending runs. A run that is being
+   * handled finishes, but the next run it schedules is blocked.
+   *
+   * @param queueName - The name of the queue
+   * @param payload - The payload that was passed to scheduleRecurring
+   * @param options - The cron expression that was passed to scheduleRecurring
+   * @returns Promise that resolves with the number of runs that were deleted
+   */
+  cancelRecurring: <T extends keyof Defs & string>(
+    queueName: T,
+    payload: z.input<ExtractSchema<Defs[T]>>,
+    options: RecurringScheduleOptions,
+  ) => Promise<number>;
+
+  /**
+   * Schedules a group of tasks, and a completion task that runs once when all
+   * tasks of the group succeeded or failed. The handlers record the status of
+   * each task in the group store of createTypedTasks.
+   *
+   * @param queueName - The queue of the tasks in the group
+   * @param payloads - The payload of each task
+   * @param options - The completion task, and an optional group ID and
+   *   concurrency
+   * @returns Promise that resolves with the group ID and a result for each task
+   */
+  scheduleGroup: <T extends keyof Defs & string, C extends keyof Defs & string>(
+    queueName: T,
+    payloads: z.input<ExtractSchema<Defs[T]>>[],
+    options: GroupScheduleOptions<C, z.input<ExtractSchema<Defs[C]>>>,
+  ) => Promise<GroupScheduleResult<z.input<ExtractSchema<Defs[T]>>>>;
+
+  /**
+   * Creates a workflow that starts with the given queue. Add steps with `step`
+   * and register the workflow with `build`, in code that is loaded by the
+   * handlers of its steps.
+   *
+   * @param name - Unique name of the workflow
+   * @param queueName - The queue of the first step
+   * @returns A builder for the steps of the workflow
+   */
+  createWorkflow: <T extends keyof Defs & string>(
+    name: string,
+    queueName: T,
+  ) => WorkflowBuilder<Defs, T, T>;
+
+  /**
+   * Creates a function that replays dead-lettered tasks for the specified
+   * queue, using the regular scheduler
+   *
+   * @param queueName - The name of the queue the task was dead-lettered from
+   * @returns A function that schedules the payload of a DeadLetterEntry again,
+   *   or the payload passed in the options. The payload is validated against
+   *   the schema of the queue before it is scheduled.
+   */
+  createDeadLetterReplayer: <T extends keyof Defs & string>(
+    queueName: T,
+  ) => (
+    entry: DeadLetterEntry,
+    options?: DeadLetterReplayOptions<z.input<ExtractSchema<Defs[T]>>>,
+  ) => Promise<ScheduleResult>;
+
+  /**
+   * Looks up a scheduled task by name or payload
+   *
+   * @param queueName - The name of the queue the task was scheduled on
+   * @param locator - The task name, or the payload to derive the name from
+   * @returns The task with its decoded payload, or undefined if the task does
+   *   not exist or was already completed
+   */
+  getTask: <T extends keyof Defs & string>(
+    queueName: T,
+    locator: TaskLocator<z.input<ExtractSchema<Defs[T]>>>,
+  ) => Promise<TaskView<z.infer<ExtractSchema<Defs[T]>>> | undefined>;
 
-  /** Creates a type-safe handler function for processing tasks */
+  /**
+   * Deletes a scheduled task, so that it will not run
+   *
+   * @param queueName - The name of the queue the task was scheduled on
+   * @param locator - The task name, or the payload to derive the name from
+   * @returns True if the task was deleted, or false if it did not exist
+   */
+  cancelTask: <T extends keyof Defs & string>(
+    queueName: T,
+    locator: TaskLocator<z.input<ExtractSchema<Defs[T]>>>,
+  ) => Promise<boolean>;
+
+  /**
+   * Pauses a queue. Tasks can still be added, but they are not dispatched until
+   * the queue is resumed.
+   */
+  pauseQueue: (queueName: keyof Defs & string) => Promise<void>;
+
+  /** Resumes a paused queue */
+  resumeQueue: (queueName: keyof Defs & string) => Promise<void>;
+
+  /**
+   * Deletes all tasks of a queue. Tasks created before the purge can take up to
+   * a minute to disappear.
+   */
+  purgeQueue: (queueName: keyof Defs & string) => Promise<void>;
+
+  /**
+   * Lists the pending tasks of a queue, fetching pages as the iteration
+   * proceeds
+   *
+   * @param queueName - The name of the queue
+   * @param options - Optional page size
+   * @returns An async iterable of tasks with their decoded payloads. Tasks with
+   *   a payload that does not match the current schema have isValid set to
+   *   false, and tasks with a payload that could not be decoded also have
+   *   isDecodable set to false.
+   */
+  listTasks: <T extends keyof Defs & string>(
+    queueName: T,
+    options?: ListTasksOptions,
+  ) => AsyncIterable<TaskView<z.infer<ExtractSchema<Defs[T]>>>>;
+
+  /**
+   * Compares the Cloud Tasks queues with the rate limits and retry config of
+   * the definitions, and optionally creates or updates them. The config of a
+   * queue is the global options merged with the options of its handler and the
+   * queueOptions. Queues whose handler was not created in this process are
+   * skipped, so that a deploy script does not revert the handler options.
+   *
+   * @param options - Optional mode, queue selection and per-queue options
+   * @returns A plan with an action and a list of changes for each queue
+   */
+  syncQueues: (
+    options?: QueueSyncOptions<keyof Defs & string>,
+  ) => Promise<QueueSyncResult>;
+
+  /**
+   * Creates a type-safe handler function for processing tasks. The handler
+   * receives the validated payload and the dispatch metadata, like the retry
+   * count and task ID. For tasks with an output schema, it returns the output
+   * that a workflow passes to its next step. With the idempotency option,
+   * deliveries of a task that was already handled are skipped. With the
+   * timeoutMs option, the signal of the metadata aborts shortly before the
+   * handler times out.
+   */
   createHandler: <T extends keyof Defs & string>(config: {
     queueName: T;
     options?: TaskHandlerOptions;
-    handler: (payload: z.infer<ExtractSchema<Defs[T]>>) => Promise<void>;
+    middleware?: TaskMiddleware<z.infer<ExtractSchema<Defs[T]>>, T>[];
+    idempotency?: IdempotencyOptions<z.infer<ExtractSchema<Defs[T]>>>;
+    timeoutMs?: number;
+    handler: (
+      payload: z.infer<ExtractSchema<Defs[T]>>,
+      metadata: TaskMetadata,
+    ) => Promise<TaskResult<Defs, T>>;
   }) => TaskHandlerFunction;
 };
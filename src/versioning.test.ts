@@ -0,0 +1,164 @@
+import { describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import type { LocalTasksClient } from "./local-tasks-client";
+import { createTestTasks } from "./test-utils/test-tasks";
+import { defineSchemaVersion, parseTaskData } from "./versioning";
+
+const emailV1 = z.object({ email: z.string() });
+const emailV2 = z.object({ to: z.string() });
+const emailV3 = z.object({ to: z.string(), subject: z.string() });
+
+const versions = [
+  defineSchemaVersion(emailV1, ({ email }) => ({ to: email })),
+  defineSchemaVersion(emailV2, ({ to }) => ({ to, subject: "Hello" })),
+] as const;
+
+function setup(client?: LocalTasksClient) {
+  return createTestTasks(
+    { sendEmail: { schema: emailV3, versions } },
+    { client },
+  );
+}
+
+describe("schema versions", () => {
+  it("migrates payloads that were scheduled before the queue had versions", async () => {
+    const { client, tasks: v1Tasks } = createTestTasks({ sendEmail: emailV1 });
+
+    await v1Tasks.createScheduler("sendEmail")({ email: "test@example.com" });
+
+    const { tasks } = setup(client);
+    const handler = vi.fn(() => Promise.resolve());
+    tasks.createHandler({ queueName: "sendEmail", handler });
+
+    const views = [];
+
+    for await (const task of tasks.listTasks("sendEmail")) {
+      views.push(task);
+    }
+
+    expect(views[0]).toMatchObject({
+      isValid: true,
+      payload: { to: "test@example.com", subject: "Hello" },
+    });
+
+    await client.runDueTasks();
+
+    expect(handler).toHaveBeenCalledWith(
+      { to: "test@example.com", subject: "Hello" },
+      expect.anything(),
+    );
+  });
+
+  it("stamps the current version and passes the payload unchanged", async () => {
+    const { client, tasks } = setup();
+    const handler = vi.fn(() => Promise.resolve());
+    tasks.createHandler({ queueName: "sendEmail", handler });
+
+    await tasks.createScheduler("sendEmail")({
+      to: "test@example.com",
+      subject: "Welcome",
+    });
+
+    await client.runDueTasks();
+
+    expect(client.getDispatches("sendEmail")[0]?.data).toEqual({
+      __typedTasks: { version: 3 },
+      payload: { to: "test@example.com", subject: "Welcome" },
+    });
+
+    expect(handler).toHaveBeenCalledWith(
+      { to: "test@example.com", subject: "Welcome" },
+      expect.anything(),
+    );
+  });
+
+  it("retries payloads with a version that is newer than the handler", async () => {
+    const { client, tasks } = setup();
+    const handler = vi.fn(() => Promise.resolve());
+
+    await tasks.createScheduler("sendEmail")({
+      to: "test@example.com",
+      subject: "Welcome",
+    });
+
+    const { tasks: v2Tasks } = createTestTasks(
+      { sendEmail: { schema: emailV2, versions: versions.slice(0, 1) } },
+      { client },
+    );
+    v2Tasks.createHandler({ queueName: "sendEmail", handler });
+
+    await client.runDueTasks();
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(client.getDispatches("sendEmail")).toMatchObject([
+      { status: "retry" },
+    ]);
+  });
+
+  it("fails parsing a version that is not a positive integer up to the current version", () => {
+    const migrate = vi.fn(({ email }: { email: string }) => ({ to: email }));
+    const spiedVersions = [
+      defineSchemaVersion(emailV1, migrate),
+      versions[1],
+    ] as const;
+
+    for (const version of [0, -1, 1.5, "2", 4]) {
+      const { result } = parseTaskData(
+        { __typedTasks: { version }, payload: { email: "test@example.com" } },
+        emailV3,
+        spiedVersions,
+      );
+
+      expect(result.success).toBe(false);
+    }
+
+    expect(migrate).not.toHaveBeenCalled();
+  });
+
+  it("acknowledges a task with an invalid version instead of retrying it", async () => {
+    const { client, tasks } = setup();
+    const handler = vi.fn(() => Promise.resolve());
+    tasks.createHandler({ queueName: "sendEmail", handler });
+
+    await client.createTask({
+      parent: client.queuePath("demo-project", "us-central1", "sendEmail"),
+      task: {
+        httpRequest: {
+          body: Buffer.from(
+            JSON.stringify({
+              data: {
+                __typedTasks: { version: 3.5 },
+                payload: { to: "test@example.com", subject: "Welcome" },
+              },
+            }),
+          ).toString("base64"),
+        },
+      },
+    });
+    await client.runDueTasks();
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(client.getDispatches("sendEmail")).toMatchObject([
+      { status: "success" },
+    ]);
+  });
+
+  it("rejects payloads that do not match the schema of their version", async () => {
+    const { client, tasks: v1Tasks } = createTestTasks({ sendEmail: emailV1 });
+
+    await v1Tasks.createScheduler("sendEmail")({
+      email: 42,
+    } as unknown as { email: string });
+
+    const { tasks } = setup(client);
+    const handler = vi.fn(() => Promise.resolve());
+    tasks.createHandler({ queueName: "sendEmail", handler });
+
+    await client.runDueTasks();
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(client.getDispatches("sendEmail")).toMatchObject([
+      { status: "success" },
+    ]);
+  });
+});
@@ -0,0 +1,101 @@
+import { z } from "zod";
+import { unwrapPayload, type EnvelopeMetadata } from "./envelope";
+import type { TaskSchemaVersion } from "./types";
+
+/** The result of validating a payload, like the result of safeParse */
+type ParseResult<Payload> =
+  | { success: true; data: Payload }
+  | { success: false; error: z.ZodError };
+
+/**
+ * Defines a previous version of a task schema, with the function that migrates
+ * its payloads to the next version. The payload passed to the migration is
+ * validated against the schema of the version first.
+ *
+ * @param schema - The schema of the previous version
+ * @param migrate - Converts a payload of this version to the next version
+ * @returns The schema version, to use in the versions list of a definition
+ */
+export function defineSchemaVersion<Schema extends z.ZodType>(
+  schema: Schema,
+  migrate: (payload: z.output<Schema>) => unknown,
+): TaskSchemaVersion<Schema> {
+  return { schema, migrate };
+}
+
+/**
+ * Returns the current schema version of a queue. Versions are numbered from 1,
+ * and the current schema comes after all previous versions.
+ */
+export function getCurrentVersion(versions: readonly TaskSchemaVersion[] = []) {
+  return versions.length + 1;
+}
+
+/**
+ * Unwraps the task data and migrates the payload from the version it was
+ * scheduled with to the current version, then validates it against the current
+ * schema. Data without a version is treated as version 1, which is how tasks
+ * were scheduled before the queue had versions. A version that is not a
+ * positive integer, or that is newer than the current version, fails parsing.
+ *
+ * @param data - The "data" key of the task body
+ * @param schema - The current schema of the queue
+ * @param versions - The previous versions of the schema, oldest first
+ * @returns The parse result, the migrated payload, the version that the task
+ *   was scheduled with and the other envelope metadata
+ */
+export function parseTaskData<Schema extends z.ZodType>(
+  data: unknown,
+  schema: Schema,
+  versions: readonly TaskSchemaVersion[] = [],
+): {
+  result: ParseResult<z.output<Schema>>;
+  payload: unknown;
+  version: number;
+  metadata: EnvelopeMetadata;
+} {
+  const { payload, metadata } = unwrapPayload(data);
+  const version = metadata.version ?? 1;
+  const currentVersion = getCurrentVersion(versions);
+
+  // The version comes from the task body, so it is not trusted to be a number
+  if (!Number.isInteger(version) || version < 1 || version > currentVersion) {
+    const error = new z.ZodError([
+      {
+        code: "custom",
+        message:
+          Number.isInteger(version) && version > currentVersion
+            ? `Payload has schema version ${version}, but the latest known version is ${currentVersion}`
+            : `Payload has schema version ${JSON.stringify(version)}, which is not a positive integer`,
+        path: [],
+        input: payload,
+      },
+    ]);
+
+    return { result: { success: false, error }, payload, version, metadata };
+  }
+
+  let migratedPayload = payload;
+
+  for (const previous of versions.slice(version - 1)) {
+    const result = previous.schema.safeParse(migratedPayload);
+
+    if (!result.success) {
+      return {
+        result: { success: false, error: result.error },
+        payload: migratedPayload,
+        version,
+        metadata,
+      };
+    }
+
+    migratedPayload = previous.migrate(result.data);
+  }
+
+  return {
+    result: schema.safeParse(migratedPayload),
+    payload: migratedPayload,
+    version,
+    metadata,
+  };
+}
@@ -0,0 +1,135 @@
+import { describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { defineTask } from "./define-task";
+import { createTestTasks } from "./test-utils/test-tasks";
+import type { TaskMetadata } from "./types";
+
+const definitions = {
+  createAccount: defineTask({
+    schema: z.object({ email: z.string() }),
+    output: z.object({ userId: z.string() }),
+  }),
+  sendWelcomeEmail: {
+    schema: z.object({ userId: z.string(), email: z.string() }),
+    output: z.object({ sentAt: z.iso.datetime().transform(Date.parse) }),
+  },
+  syncCrm: z.object({ userId: z.string() }),
+};
+
+describe("workflows", () => {
+  it("passes the output of each step to the next step", async () => {
+    const { client, tasks } = createTestTasks(definitions);
+    const onComplete = vi.fn();
+    const stepMetadata: TaskMetadata[] = [];
+
+    const onboardUser = tasks
+      .createWorkflow("onboardUser", "createAccount")
+      .step("sendWelcomeEmail", ({ userId }, { payload }) => ({
+        userId,
+        email: payload.email,
+      }))
+      .build({ onComplete });
+
+    tasks.createHandler({
+      queueName: "createAccount",
+      handler: async ({ email }, metadata) => {
+        stepMetadata.push(metadata);
+        return { userId: `user-${email}` };
+      },
+    });
+
+    let attempts = 0;
+    tasks.createHandler({
+      queueName: "sendWelcomeEmail",
+      handler: async (_payload, metadata) => {
+        stepMetadata.push(metadata);
+        attempts += 1;
+
+        if (attempts === 1) {
+          throw new Error("Mail server down");
+        }
+
+        return { sentAt: "2024-01-01T00:00:00Z" };
+      },
+    });
+
+    const { correlationId } = await onboardUser.start(
+      { email: "a@example.com" },
+      { correlationId: "signup-1" },
+    );
+    const repeated = await onboardUser.start(
+      { email: "a@example.com" },
+      { correlationId },
+    );
+
+    expect(repeated.result.outcome).toBe("deduplicated");
+
+    await client.runDueTasks();
+    vi.useFakeTimers({ now: Date.now() + 60_000 });
+    await client.runDueTasks();
+    vi.useRealTimers();
+
+    expect(client.getDispatches("sendWelcomeEmail")).toMatchObject([
+      { data: { payload: { userId: "user-a@example.com" } }, status: "retry" },
+      { status: "success" },
+    ]);
+    expect(stepMetadata.map(({ workflow }) => workflow)).toEqual([
+      { name: "onboardUser", correlationId: "signup-1", step: 0 },
+      { name: "onboardUser", correlationId: "signup-1", step: 1 },
+      { name: "onboardUser", correlationId: "signup-1", step: 1 },
+    ]);
+    expect(onComplete).toHaveBeenCalledExactlyOnceWith({
+      workflowName: "onboardUser",
+      correlationId: "signup-1",
+      output: { sentAt: Date.parse("2024-01-01T00:00:00Z") },
+    });
+  });
+
+  it("retries tasks of workflows that this deployment does not define", async () => {
+    const { client, tasks: newDeployment } = createTestTasks(definitions);
+    const { tasks: oldDeployment } = createTestTasks(definitions, { client });
+    const handler = vi.fn(() => Promise.resolve({ userId: "user1" }));
+
+    await newDeployment
+      .createWorkflow("onboardUser", "createAccount")
+      .build()
+      .start({ email: "a@example.com" });
+    oldDeployment.createHandler({ queueName: "createAccount", handler });
+
+    await client.runDueTasks();
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(client.getDispatches()).toMatchObject([{ status: "retry" }]);
+  });
+
+  it("does not retry a step with an output that does not match its schema", async () => {
+    const { client, tasks } = createTestTasks(definitions);
+    const handler = vi.fn(() =>
+      Promise.resolve({ userId: 42 } as unknown as { userId: string }),
+    );
+
+    await tasks
+      .createWorkflow("onboardUser", "createAccount")
+      .step("syncCrm", ({ userId }) => ({ userId }))
+      .build()
+      .start({ email: "a@example.com" });
+    tasks.createHandler({ queueName: "createAccount", handler });
+
+    await client.runDueTasks();
+
+    expect(handler).toHaveBeenCalledOnce();
+    expect(client.getDispatches()).toMatchObject([{ status: "success" }]);
+    expect(client.getPendingTasks()).toEqual([]);
+  });
+
+  it("checks the mapping of each step against the definitions", () => {
+    const { tasks } = createTestTasks(definitions);
+
+    tasks
+      .createWorkflow("typed", "createAccount")
+      // @ts-expect-error The output of createAccount has no email
+      .step("sendWelcomeEmail", ({ email }) => ({ userId: "", email }))
+      // @ts-expect-error The payload of syncCrm requires a userId
+      .step("syncCrm", ({ sentAt }) => ({ sentAt }));
+  });
+});
@@ -0,0 +1,188 @@
+import crypto from "node:crypto";
+import type { ScheduleContinuation } from "./continuation";
+import type {
+  TaskLogger,
+  WorkflowCompletion,
+  WorkflowMetadata,
+  WorkflowOptions,
+  WorkflowStartOptions,
+  WorkflowStepContext,
+} from "./types";
+
+/** A step of a registered workflow */
+type WorkflowStep = {
+  queueName: string;
+  /**
+   * Maps the output of the previous step to the payload of this step. The first
+   * step has no previous step.
+   */
+  mapOutput?: (
+    output: unknown,
+    context: WorkflowStepContext<unknown>,
+  ) => unknown;
+};
+
+/** A workflow as it is stored in the registry */
+export type WorkflowDefinition = {
+  name: string;
+  steps: WorkflowStep[];
+  onComplete?: (event: WorkflowCompletion<unknown>) => void | Promise<void>;
+};
+
+/**
+ * Creates a new workflow registry instance
+ *
+ * This registry maps workflow names to their steps, so that the handler of a
+ * step can schedule the next one
+ */
+export function createWorkflowRegistry() {
+  return new Map<string, WorkflowDefinition>();
+}
+
+/** Type definition for a workflow registry */
+export type WorkflowRegistry = ReturnType<typeof createWorkflowRegistry>;
+
+/**
+ * Returns the name of the task for a step of a workflow run. The name is
+ * derived from the run and the step, so that a retry of the previous step does
+ * not schedule the step twice.
+ *
+ * @param workflow - The workflow, run and step
+ * @returns The short task name
+ */
+export function getWorkflowTaskName({
+  name,
+  correlationId,
+  step,
+}: WorkflowMetadata) {
+  return crypto
+    .createHash("md5")
+    .update(`${name}/${correlationId}/${step}`)
+    .digest("hex");
+}
+
+/**
+ * Returns the definition of the workflow that a dispatched task belongs to
+ *
+ * @param workflows - Registry with the workflow definitions
+ * @param queueName - The queue that dispatched the task
+ * @param workflow - The workflow metadata of the task
+ * @returns The workflow definition
+ * @throws When the workflow or step is not defined, for example because the
+ *   task was scheduled by a newer deployment
+ */
+export function getWorkflowDefinition(
+  workflows: WorkflowRegistry,
+  queueName: string,
+  workflow: WorkflowMetadata,
+) {
+  const definition = workflows.get(workflow.name);
+
+  if (definition?.steps[workflow.step]?.queueName !== queueName) {
+    throw new Error(
+      `Task on queue ${queueName} is step ${workflow.step} of workflow ${workflow.name}, which is not defined for this queue`,
+    );
+  }
+
+  return definition;
+}
+
+/**
+ * Schedules the next step of a workflow with the output of the current step, or
+ * completes the workflow after its last step
+ *
+ * @param definition - The workflow definition
+ * @param workflow - The workflow metadata of the current step
+ * @param payload - The validated payload of the current step
+ * @param output - The output of the current step
+ * @param settings - The function to schedule the next step and the logger
+ */
+export async function continueWorkflow(
+  definition: WorkflowDefinition,
+  workflow: WorkflowMetadata,
+  payload: unknown,
+  output: unknown,
+  {
+    scheduleContinuation,
+    logger,
+  }: { scheduleContinuation: ScheduleContinuation; logger: TaskLogger },
+) {
+  const { name, correlationId } = workflow;
+  const nextStep = definition.steps[workflow.step + 1];
+
+  if (!nextStep) {
+    await definition.onComplete?.({
+      workflowName: name,
+      correlationId,
+      output,
+    });
+    logger.info(
+      `Workflow ${name} completed for correlation ID ${correlationId}`,
+    );
+    return;
+  }
+
+  const next = { name, correlationId, step: workflow.step + 1 };
+
+  await scheduleContinuation(
+    nextStep.queueName,
+    nextStep.mapOutput
+      ? nextStep.mapOutput(output, { correlationId, payload })
+      : output,
+    new Date(Date.now()),
+    { taskName: getWorkflowTaskName(next), metadata: { workflow: next } },
+  );
+}
+
+/**
+ * Creates the function that declares workflows. Each workflow is registered by
+ * `build`, so that the handlers of its steps can continue it.
+ *
+ * @param workflows - Registry to add the workflow definitions to
+ * @param scheduleContinuation - Schedules a task with a fixed name and metadata
+ * @returns The createWorkflow function
+ */
+export function createWorkflowFactory(
+  workflows: WorkflowRegistry,
+  scheduleContinuation: ScheduleContinuation,
+) {
+  return (name: string, queueName: string) => {
+    const createBuilder = (steps: WorkflowStep[]) => ({
+      step: (
+        nextQueueName: string,
+        mapOutput: NonNullable<WorkflowStep["mapOutput"]>,
+      ) => createBuilder([...steps, { queueName: nextQueueName, mapOutput }]),
+
+      build: ({ onComplete }: WorkflowOptions<unknown> = {}) => {
+        if (workflows.has(name)) {
+          throw new Error(`Workflow ${name} is already defined`);
+        }
+
+        workflows.set(name, { name, steps, onComplete });
+
+        return {
+          name,
+          start: async (
+            payload: unknown,
+            { correlationId = crypto.randomUUID() }: WorkflowStartOptions = {},
+          ) => {
+            const workflow = { name, correlationId, step: 0 };
+            const result = await scheduleContinuation(
+              queueName,
+              payload,
+              new Date(Date.now()),
+              {
+                taskName: getWorkflowTaskName(workflow),
+                metadata: { workflow },
+              },
+            );
+
+            return { correlationId, result };
+          },
+        };
+      },
+    });
+
+    return createBuilder([{ queueName }]);
+  };
+}